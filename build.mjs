@@ -1,9 +1,9 @@
 import * as esbuild from 'esbuild';
 import * as fs from 'fs';
 
-// Bundle the component (minified)
+// Bundle both elements (minified)
 await esbuild.build({
-  entryPoints: ['src/discourse-comments.ts'],
+  entryPoints: ['src/index.ts'],
   bundle: true,
   format: 'iife',
   globalName: 'DiscourseComments',
@@ -15,7 +15,7 @@ console.log('Built dist/discourse-comments.min.js');
 
 // Non-minified version for debugging
 await esbuild.build({
-  entryPoints: ['src/discourse-comments.ts'],
+  entryPoints: ['src/index.ts'],
   bundle: true,
   format: 'iife',
   globalName: 'DiscourseComments',
@@ -25,6 +25,9 @@ await esbuild.build({
 
 console.log('Built dist/discourse-comments.js');
 
+// Callback page for popup login, hosted alongside the bundle
+fs.copyFileSync('login-callback.html', 'dist/login-callback.html');
+
 // Report sizes
 const minSize = fs.statSync('dist/discourse-comments.min.js').size;
 const fullSize = fs.statSync('dist/discourse-comments.js').size;
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeAll, afterEach } from 'vitest';
+import {
+  LOGIN_CHANNEL,
+  LOGIN_MESSAGE_TYPE,
+  LOGIN_STATE_TTL,
+  createNonce,
+  decryptPayload,
+  generateKeyPair,
+  revokeApiKey,
+  saveLoginState,
+  takeLoginState,
+  waitForLoginPayload,
+} from './auth.js';
+
+async function encryptPayload(publicKeyPem: string, data: unknown): Promise<string> {
+  const der = Uint8Array.from(
+    atob(publicKeyPem.replace(/-----[A-Z ]+-----/g, '').replace(/\s/g, '')),
+    c => c.charCodeAt(0)
+  );
+  const publicKey = await window.crypto.subtle.importKey(
+    'spki', der, { name: 'RSA-OAEP', hash: 'SHA-1' }, false, ['encrypt']
+  );
+  const encrypted = await window.crypto.subtle.encrypt(
+    { name: 'RSA-OAEP' }, publicKey, new TextEncoder().encode(JSON.stringify(data))
+  );
+  return btoa(String.fromCharCode(...new Uint8Array(encrypted)));
+}
+
+const FORUM = 'https://forum.example.com';
+
+describe('createNonce', () => {
+  it('returns 128 random bits as hex', () => {
+    const nonce = createNonce();
+
+    expect(nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(createNonce()).not.toBe(nonce);
+  });
+});
+
+describe('login state', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('is keyed by forum and instance', () => {
+    saveLoginState(FORUM, '0', { privateKey: 'pem', nonce: 'abc' });
+
+    expect(takeLoginState('https://other.example.com', '0')).toBeNull();
+    expect(takeLoginState(FORUM, '#second')).toBeNull();
+    expect(takeLoginState(FORUM, '0')).toMatchObject({ privateKey: 'pem', nonce: 'abc' });
+  });
+
+  it('can only be taken once', () => {
+    saveLoginState(FORUM, '0', { privateKey: 'pem', nonce: 'abc' });
+
+    expect(takeLoginState(FORUM, '0')).not.toBeNull();
+    expect(takeLoginState(FORUM, '0')).toBeNull();
+  });
+
+  it('expires', () => {
+    const now = Date.now();
+    saveLoginState(FORUM, '0', { privateKey: 'pem', nonce: 'abc' }, now);
+
+    expect(takeLoginState(FORUM, '0', now + LOGIN_STATE_TTL + 1)).toBeNull();
+  });
+
+  it('clears expired logins and the old shared slot', () => {
+    const now = Date.now();
+    localStorage.setItem('discourse-comments-private-key-temp', 'pem');
+    saveLoginState('https://other.example.com', '0', { privateKey: 'pem', nonce: 'old' }, now - LOGIN_STATE_TTL);
+    saveLoginState(FORUM, '0', { privateKey: 'pem', nonce: 'new' }, now);
+
+    expect(localStorage.length).toBe(1);
+  });
+});
+
+describe('decryptPayload', () => {
+  let keys: { publicKey: string; privateKey: string };
+
+  beforeAll(async () => {
+    keys = await generateKeyPair();
+  });
+
+  it('returns the API key from a payload carrying our nonce', async () => {
+    const payload = await encryptPayload(keys.publicKey, { key: 'user-key', nonce: 'n1', push: false, api: 4 });
+    const state = { privateKey: keys.privateKey, nonce: 'n1', expiresAt: Date.now() + 1000 };
+
+    expect(await decryptPayload(payload, state)).toBe('user-key');
+  });
+
+  it('rejects payloads with a different nonce', async () => {
+    const payload = await encryptPayload(keys.publicKey, { key: 'user-key', nonce: 'someone-else' });
+    const state = { privateKey: keys.privateKey, nonce: 'n1', expiresAt: Date.now() + 1000 };
+
+    await expect(decryptPayload(payload, state)).rejects.toThrow('Nonce mismatch');
+  });
+
+  it('rejects tampered payloads', async () => {
+    const payload = await encryptPayload(keys.publicKey, { key: 'user-key', nonce: 'n1' });
+    const bytes = Uint8Array.from(atob(payload), c => c.charCodeAt(0));
+    bytes[10] ^= 0xff;
+    const tampered = btoa(String.fromCharCode(...bytes));
+    const state = { privateKey: keys.privateKey, nonce: 'n1', expiresAt: Date.now() + 1000 };
+
+    await expect(decryptPayload(tampered, state)).rejects.toThrow();
+  });
+
+  it('rejects payloads encrypted for another key', async () => {
+    const other = await generateKeyPair();
+    const payload = await encryptPayload(other.publicKey, { key: 'user-key', nonce: 'n1' });
+    const state = { privateKey: keys.privateKey, nonce: 'n1', expiresAt: Date.now() + 1000 };
+
+    await expect(decryptPayload(payload, state)).rejects.toThrow();
+  });
+});
+
+describe('revokeApiKey', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts to the revoke endpoint with the key', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await revokeApiKey('https://forum.example.com/', 'user-key');
+
+    expect(fetchMock).toHaveBeenCalledWith('https://forum.example.com/user-api-key/revoke', {
+      method: 'POST',
+      headers: { 'User-Api-Key': 'user-key' },
+    });
+  });
+
+  it('treats keys the forum no longer accepts as revoked', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 403 }));
+    await expect(revokeApiKey(FORUM, 'user-key')).resolves.toBeUndefined();
+  });
+
+  it('throws on other failures', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500 }));
+    await expect(revokeApiKey(FORUM, 'user-key')).rejects.toThrow('HTTP 500');
+  });
+});
+
+describe('waitForLoginPayload', () => {
+  const origin = 'https://blog.example.com';
+
+  function fakePopup() {
+    return { closed: false, close: vi.fn() } as unknown as Window & { close: ReturnType<typeof vi.fn> };
+  }
+
+  function post(source: unknown, eventOrigin: string, data: unknown) {
+    window.dispatchEvent(new MessageEvent('message', { data, origin: eventOrigin, source: source as Window }));
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves with the payload from the popup and closes it', async () => {
+    const popup = fakePopup();
+    const result = waitForLoginPayload(popup, origin);
+
+    post(popup, origin, { type: LOGIN_MESSAGE_TYPE, payload: 'encrypted' });
+
+    expect(await result).toBe('encrypted');
+    expect(popup.close).toHaveBeenCalled();
+  });
+
+  it('ignores messages from other windows, origins or senders', async () => {
+    const popup = fakePopup();
+    const result = waitForLoginPayload(popup, origin);
+
+    post(fakePopup(), origin, { type: LOGIN_MESSAGE_TYPE, payload: 'from-another-window' });
+    post(popup, 'https://evil.example.com', { type: LOGIN_MESSAGE_TYPE, payload: 'from-another-origin' });
+    post(popup, origin, { type: 'something-else', payload: 'unrelated' });
+    post(popup, origin, { type: LOGIN_MESSAGE_TYPE, payload: 'genuine' });
+
+    expect(await result).toBe('genuine');
+  });
+
+  it('takes the payload broadcast by a callback page cut off from its opener', async () => {
+    const popup = fakePopup();
+    const result = waitForLoginPayload(popup, window.location.origin);
+
+    const channel = new BroadcastChannel(LOGIN_CHANNEL);
+    channel.postMessage({ type: 'something-else', payload: 'unrelated' });
+    channel.postMessage({ type: LOGIN_MESSAGE_TYPE, payload: 'broadcast' });
+    channel.close();
+
+    expect(await result).toBe('broadcast');
+  });
+
+  it('keeps waiting while the popup only looks closed', async () => {
+    vi.useFakeTimers();
+    const popup = fakePopup();
+    const result = waitForLoginPayload(popup, origin);
+
+    // What the opener sees once the forum's Cross-Origin-Opener-Policy applies
+    (popup as { closed: boolean }).closed = true;
+    await vi.advanceTimersByTimeAsync(60_000);
+    post(popup, origin, { type: LOGIN_MESSAGE_TYPE, payload: 'late' });
+
+    expect(await result).toBe('late');
+  });
+
+  it('resolves null once the login expires', async () => {
+    vi.useFakeTimers();
+    const popup = fakePopup();
+    const result = waitForLoginPayload(popup, origin);
+
+    await vi.advanceTimersByTimeAsync(LOGIN_STATE_TTL);
+
+    expect(await result).toBeNull();
+    expect(popup.close).toHaveBeenCalled();
+  });
+
+  it('resolves null when aborted', async () => {
+    const controller = new AbortController();
+    const result = waitForLoginPayload(fakePopup(), origin, controller.signal);
+
+    controller.abort();
+
+    expect(await result).toBeNull();
+  });
+});
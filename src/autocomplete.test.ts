@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  applyCompletion,
+  clearEmojiCache,
+  emojiSuggestion,
+  fetchEmojis,
+  findTrigger,
+  matchEmojis,
+  mentionSuggestion,
+  rankMentions,
+  searchUsers,
+  topicParticipants,
+} from './autocomplete.js';
+
+function jsonResponse(status: number, body: unknown = {}) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+describe('findTrigger', () => {
+  it('finds a mention being typed at the caret', () => {
+    expect(findTrigger('Thanks @al', 10)).toEqual({ kind: 'mention', query: 'al', start: 7 });
+    expect(findTrigger('@', 1)).toEqual({ kind: 'mention', query: '', start: 0 });
+    expect(findTrigger('(@bob.smith', 11)).toEqual({ kind: 'mention', query: 'bob.smith', start: 1 });
+  });
+
+  it('finds emoji once a couple of letters are typed', () => {
+    expect(findTrigger('Nice :sm', 8)).toEqual({ kind: 'emoji', query: 'sm', start: 5 });
+    expect(findTrigger('Nice :s', 7)).toBeNull();
+  });
+
+  it('ignores @ and : inside words, times and finished text', () => {
+    expect(findTrigger('me@example.com', 14)).toBeNull();
+    expect(findTrigger('at 10:30', 8)).toBeNull();
+    expect(findTrigger('@alice done', 11)).toBeNull();
+    expect(findTrigger(':smile: ok', 10)).toBeNull();
+  });
+
+  it('only looks before the caret', () => {
+    expect(findTrigger('@al and more', 3)).toEqual({ kind: 'mention', query: 'al', start: 0 });
+  });
+});
+
+describe('applyCompletion', () => {
+  it('replaces the trigger and query and puts the caret after it', () => {
+    const trigger = { kind: 'mention' as const, query: 'al', start: 7 };
+    expect(applyCompletion('Thanks @al!', trigger, 10, '@alice ')).toEqual({ value: 'Thanks @alice !', caret: 14 });
+  });
+});
+
+describe('topicParticipants', () => {
+  it('lists each poster once, most recent first', () => {
+    const participants = topicParticipants([
+      { username: 'alice', post_number: 1 },
+      { username: 'bob', name: 'Bob B', post_number: 2 },
+      { username: 'Alice', post_number: 3 },
+    ]);
+
+    expect(participants.map(p => p.username)).toEqual(['Alice', 'bob']);
+  });
+});
+
+describe('rankMentions', () => {
+  const participants = [
+    { username: 'bob', name: 'Robert Jones' },
+    { username: 'carol', name: 'Carol Bennett' },
+  ];
+
+  it('puts matching participants before search results', () => {
+    const ranked = rankMentions(participants, [{ username: 'bea' }, { username: 'bob' }], 'b');
+
+    expect(ranked.map(p => p.username)).toEqual(['bob', 'carol', 'bea']);
+  });
+
+  it('matches the start of the username or of a word in the name', () => {
+    expect(rankMentions(participants, [], 'jon').map(p => p.username)).toEqual(['bob']);
+    expect(rankMentions(participants, [], 'ob')).toEqual([]);
+  });
+
+  it('caps the list', () => {
+    const searched = Array.from({ length: 10 }, (_, i) => ({ username: `b${i}` }));
+    expect(rankMentions(participants, searched, 'b', 4)).toHaveLength(4);
+  });
+});
+
+describe('matchEmojis', () => {
+  const emojis = ['smile', 'smiley', 'grinning', 'sweat_smile'].map(name => ({ name, url: `/e/${name}.png` }));
+
+  it('lists names starting with the query before names containing it', () => {
+    expect(matchEmojis(emojis, 'smi').map(e => e.name)).toEqual(['smile', 'smiley', 'sweat_smile']);
+    expect(matchEmojis(emojis, 'SMI', 1).map(e => e.name)).toEqual(['smile']);
+  });
+});
+
+describe('suggestions', () => {
+  it('turns users into mentions with avatars', () => {
+    expect(mentionSuggestion('https://forum.example.com', { username: 'bob', name: 'Bob B', avatar_template: '/a/{size}.png' }, 24))
+      .toEqual({ replacement: '@bob ', label: '@bob', detail: 'Bob B', image: 'https://forum.example.com/a/24.png' });
+    expect(mentionSuggestion('https://forum.example.com', { username: 'bob', name: 'bob' }, 24).detail).toBeNull();
+  });
+
+  it('turns emoji into shortcodes', () => {
+    expect(emojiSuggestion({ name: 'smile', url: 'https://forum.example.com/smile.png' }))
+      .toEqual({ replacement: ':smile: ', label: ':smile:', detail: null, image: 'https://forum.example.com/smile.png' });
+  });
+});
+
+describe('searchUsers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('asks the forum with the topic for context', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {
+      users: [{ username: 'bea', name: 'Bea', avatar_template: '/a/{size}.png' }, { name: 'no username' }],
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const users = await searchUsers('https://forum.example.com/', 'be', 42, { 'User-Api-Key': 'key' });
+
+    expect(users).toEqual([{ username: 'bea', name: 'Bea', avatar_template: '/a/{size}.png' }]);
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.pathname).toBe('/u/search/users.json');
+    expect(url.searchParams.get('term')).toBe('be');
+    expect(url.searchParams.get('topic_id')).toBe('42');
+    expect(fetchMock.mock.calls[0][1]).toEqual({ headers: { 'User-Api-Key': 'key' } });
+  });
+
+  it('rejects when the search fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(500)));
+
+    await expect(searchUsers('https://forum.example.com', 'be', null)).rejects.toThrow('HTTP 500');
+  });
+});
+
+describe('fetchEmojis', () => {
+  beforeEach(() => {
+    clearEmojiCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('flattens the groups and resolves URLs against the forum', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(200, {
+      smileys: [{ name: 'smile', url: '/images/emoji/twitter/smile.png?v=12' }],
+      custom: [{ name: 'party_parrot', url: 'https://cdn.example.com/parrot.gif' }, { name: '<bad>', url: '/x.png' }],
+    })));
+
+    expect(await fetchEmojis('https://forum.example.com')).toEqual([
+      { name: 'smile', url: 'https://forum.example.com/images/emoji/twitter/smile.png?v=12' },
+      { name: 'party_parrot', url: 'https://cdn.example.com/parrot.gif' },
+    ]);
+  });
+
+  it('fetches once per forum and tries again after a failure', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(500))
+      .mockResolvedValueOnce(jsonResponse(200, [{ name: 'smile', url: '/smile.png' }]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchEmojis('https://forum.example.com')).rejects.toThrow('HTTP 500');
+    const [first, second] = await Promise.all([
+      fetchEmojis('https://forum.example.com'),
+      fetchEmojis('https://forum.example.com/'),
+    ]);
+
+    expect(first).toBe(second);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Composer autocomplete for @mentions and :emoji: shortcodes.
+ *
+ * Typing @ suggests people, starting with whoever has already posted in
+ * the topic and filling up from the forum's user search. Typing : and a
+ * couple of letters suggests emoji from the forum's emoji set, custom
+ * emoji included.
+ */
+
+import { avatarUrl, resolveForumUrl } from './users.js';
+import type { PostAuthor } from './users.js';
+import { fetchJson, isRecord, normalizeBaseUrl } from './utils.js';
+
+export type CompletionKind = 'mention' | 'emoji';
+
+export interface CompletionTrigger {
+  kind: CompletionKind;
+  // What's been typed after the @ or :
+  query: string;
+  // Index of the @ or :
+  start: number;
+}
+
+export type MentionCandidate = Pick<PostAuthor, 'username' | 'name' | 'avatar_template'>;
+
+export interface Emoji {
+  name: string;
+  url: string;
+}
+
+export interface Suggestion {
+  // Replaces the trigger and query in the text
+  replacement: string;
+  label: string;
+  detail: string | null;
+  image: string | null;
+}
+
+export const MAX_SUGGESTIONS = 6;
+
+// ":" starts times and smileys too, so emoji wait for a couple of letters
+const EMOJI_MIN_CHARS = 2;
+
+// The trigger has to start a word; the query runs up to the caret
+const MENTION_TRIGGER = /(?:^|[\s(])@([\w.-]*)$/;
+const EMOJI_TRIGGER = /(?:^|[\s(]):([\w+-]*)$/;
+const EMOJI_NAME = /^[\w+-]+$/;
+
+const emojiLists: Map<string, Promise<Emoji[]>> = new Map();
+
+/**
+ * The completion being typed at the caret, if any.
+ */
+export function findTrigger(value: string, caret: number): CompletionTrigger | null {
+  const before = value.slice(0, caret);
+
+  const mention = MENTION_TRIGGER.exec(before);
+  if (mention) {
+    return { kind: 'mention', query: mention[1], start: caret - mention[1].length - 1 };
+  }
+
+  const emoji = EMOJI_TRIGGER.exec(before);
+  if (emoji && emoji[1].length >= EMOJI_MIN_CHARS) {
+    return { kind: 'emoji', query: emoji[1], start: caret - emoji[1].length - 1 };
+  }
+  return null;
+}
+
+/**
+ * Swap the trigger and query for a picked suggestion. Returns the new
+ * text and where the caret goes.
+ */
+export function applyCompletion(
+  value: string,
+  trigger: CompletionTrigger,
+  caret: number,
+  replacement: string
+): { value: string; caret: number } {
+  return {
+    value: value.slice(0, trigger.start) + replacement + value.slice(caret),
+    caret: trigger.start + replacement.length,
+  };
+}
+
+/**
+ * Everyone who has posted, most recent first, so the people a reader is
+ * most likely replying to come up first.
+ */
+export function topicParticipants(posts: Array<MentionCandidate & { post_number: number }>): MentionCandidate[] {
+  const seen = new Set<string>();
+  const participants: MentionCandidate[] = [];
+  for (const post of [...posts].sort((a, b) => b.post_number - a.post_number)) {
+    const key = post.username.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    participants.push({ username: post.username, name: post.name, avatar_template: post.avatar_template });
+  }
+  return participants;
+}
+
+// Matches the start of the username or of any word in the full name
+function matchesMention(candidate: MentionCandidate, query: string): boolean {
+  const q = query.toLowerCase();
+  return candidate.username.toLowerCase().startsWith(q)
+    || (candidate.name || '').toLowerCase().split(/\s+/).some(word => word.startsWith(q));
+}
+
+/**
+ * Mention candidates for a query: participants first, then the forum's
+ * search results, without repeats.
+ */
+export function rankMentions(
+  participants: MentionCandidate[],
+  searched: MentionCandidate[],
+  query: string,
+  limit: number = MAX_SUGGESTIONS
+): MentionCandidate[] {
+  const seen = new Set<string>();
+  const ranked: MentionCandidate[] = [];
+  for (const candidate of [...participants.filter(p => matchesMention(p, query)), ...searched]) {
+    const key = candidate.username.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    ranked.push(candidate);
+  }
+  return ranked.slice(0, limit);
+}
+
+/**
+ * Emoji for a query: names starting with it, then names containing it.
+ */
+export function matchEmojis(emojis: Emoji[], query: string, limit: number = MAX_SUGGESTIONS): Emoji[] {
+  const q = query.toLowerCase();
+  const prefix = emojis.filter(emoji => emoji.name.startsWith(q));
+  const inner = emojis.filter(emoji => !emoji.name.startsWith(q) && emoji.name.includes(q));
+  return [...prefix, ...inner].slice(0, limit);
+}
+
+export function mentionSuggestion(discourseUrl: string, candidate: MentionCandidate, avatarPixels: number): Suggestion {
+  const name = candidate.name?.trim() || '';
+  return {
+    replacement: `@${candidate.username} `,
+    label: `@${candidate.username}`,
+    detail: name && name.toLowerCase() !== candidate.username.toLowerCase() ? name : null,
+    image: avatarUrl(discourseUrl, candidate.avatar_template, avatarPixels),
+  };
+}
+
+export function emojiSuggestion(emoji: Emoji): Suggestion {
+  return {
+    replacement: `:${emoji.name}: `,
+    label: `:${emoji.name}:`,
+    detail: null,
+    image: emoji.url,
+  };
+}
+
+/**
+ * Search the forum's users. With a topic, Discourse ranks the topic's
+ * participants higher.
+ */
+export async function searchUsers(
+  discourseUrl: string,
+  term: string,
+  topicId: number | null,
+  headers: Record<string, string> = {}
+): Promise<MentionCandidate[]> {
+  const params = new URLSearchParams({ term, include_groups: 'false', limit: String(MAX_SUGGESTIONS) });
+  if (topicId !== null) params.set('topic_id', String(topicId));
+
+  const data = await fetchJson(`${normalizeBaseUrl(discourseUrl)}/u/search/users.json?${params}`, { headers });
+  const users: unknown[] = isRecord(data) && Array.isArray(data.users) ? data.users : [];
+  return users
+    .filter((user): user is MentionCandidate => isRecord(user) && typeof user.username === 'string')
+    .map(user => ({ username: user.username, name: user.name, avatar_template: user.avatar_template }));
+}
+
+/**
+ * The forum's emoji, fetched once per forum and shared. Discourse lists
+ * them by group; older versions send one flat list.
+ */
+export function fetchEmojis(discourseUrl: string, headers: Record<string, string> = {}): Promise<Emoji[]> {
+  const base = normalizeBaseUrl(discourseUrl);
+
+  let list = emojiLists.get(base);
+  if (!list) {
+    list = (async () => {
+      const data = await fetchJson(`${base}/emojis.json`, { headers });
+      const entries: unknown[] = Array.isArray(data)
+        ? data
+        : isRecord(data) ? Object.values(data).flat() : [];
+
+      const emojis: Emoji[] = [];
+      for (const entry of entries) {
+        if (!isRecord(entry) || typeof entry.name !== 'string' || !EMOJI_NAME.test(entry.name) || typeof entry.url !== 'string') continue;
+        const url = resolveForumUrl(base, entry.url);
+        if (url) emojis.push({ name: entry.name, url });
+      }
+      return emojis;
+    })();
+    // Let the next composer try again rather than sharing a failure
+    list.catch(() => emojiLists.delete(base));
+    emojiLists.set(base, list);
+  }
+  return list;
+}
+
+export function clearEmojiCache() {
+  emojiLists.clear();
+}
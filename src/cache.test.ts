@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  clearTopicCache,
+  markTopicStale,
+  postSignature,
+  readCachedTopic,
+  topicCacheKey,
+  writeCachedTopic,
+} from './cache.js';
+
+const topic = { title: 'Cached', post_stream: { posts: [{ id: 1 }] } };
+
+describe('topicCacheKey', () => {
+  it('keys by forum, topic and reader', () => {
+    const anonymous = topicCacheKey('https://forum.example.com/', 42, null);
+
+    expect(anonymous).toBe('discourse-comments-cache:https://forum.example.com:42:anonymous');
+    expect(topicCacheKey('https://forum.example.com', 43, null)).not.toBe(anonymous);
+    expect(topicCacheKey('https://other.example.com', 42, null)).not.toBe(anonymous);
+  });
+
+  it('gives each API key its own entry without storing the key', () => {
+    const alice = topicCacheKey('https://forum.example.com', 42, 'alice-key');
+    const bob = topicCacheKey('https://forum.example.com', 42, 'bob-key');
+
+    expect(alice).toMatch(/:42:user-[0-9a-f]+$/);
+    expect(alice).not.toBe(bob);
+    expect(alice).not.toContain('alice-key');
+  });
+});
+
+describe('topic cache', () => {
+  const key = topicCacheKey('https://forum.example.com', 42, null);
+
+  beforeEach(() => {
+    clearTopicCache();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns nothing for topics it has not seen', () => {
+    expect(readCachedTopic(key, 60_000)).toBeNull();
+  });
+
+  it('is fresh within the TTL and stale after it', () => {
+    writeCachedTopic(key, topic, 1000);
+
+    expect(readCachedTopic(key, 60_000, 30_000)).toEqual({ topic, fresh: true });
+    expect(readCachedTopic(key, 60_000, 70_000)).toEqual({ topic, fresh: false });
+  });
+
+  it('drops entries older than a day', () => {
+    writeCachedTopic(key, topic, 0);
+
+    expect(readCachedTopic(key, 60_000, 25 * 60 * 60_000)).toBeNull();
+    expect(readCachedTopic(key, 60_000, 0)).toBeNull();
+  });
+
+  it('keeps entries in sessionStorage for the next page', () => {
+    writeCachedTopic(key, topic, 1000);
+
+    expect(JSON.parse(sessionStorage.getItem(key)!)).toEqual({ topic, fetchedAt: 1000 });
+  });
+
+  it('hands out copies of the cached topic', () => {
+    writeCachedTopic(key, topic, 1000);
+    const cached = readCachedTopic<typeof topic>(key, 60_000, 1000)!;
+    cached.topic.title = 'Changed';
+
+    expect(readCachedTopic<typeof topic>(key, 60_000, 1000)!.topic.title).toBe('Cached');
+  });
+
+  it('treats entries marked stale as due for a refetch', () => {
+    writeCachedTopic(key, topic, 1000);
+    markTopicStale(key);
+
+    expect(readCachedTopic(key, 60_000, 1000)).toEqual({ topic, fresh: false });
+  });
+
+  it('ignores corrupt entries', () => {
+    sessionStorage.setItem(key, '{not json');
+
+    expect(readCachedTopic(key, 60_000)).toBeNull();
+    expect(sessionStorage.getItem(key)).toBeNull();
+  });
+
+  it('keeps working in memory when storage is blocked', () => {
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    writeCachedTopic(key, topic, 1000);
+
+    expect(readCachedTopic(key, 60_000, 1000)).toEqual({ topic, fresh: true });
+  });
+
+  it('clears only its own entries', () => {
+    sessionStorage.setItem('unrelated', 'keep');
+    writeCachedTopic(key, topic, 1000);
+    clearTopicCache();
+
+    expect(readCachedTopic(key, 60_000, 1000)).toBeNull();
+    expect(sessionStorage.getItem('unrelated')).toBe('keep');
+    sessionStorage.removeItem('unrelated');
+  });
+});
+
+describe('postSignature', () => {
+  const post = { id: 1, cooked: '<p>Hi</p>', like_count: 1, reads: 3 };
+
+  it('changes when something shown changes', () => {
+    expect(postSignature({ ...post, cooked: '<p>Edited</p>' })).not.toBe(postSignature(post));
+    expect(postSignature({ ...post, like_count: 2 })).not.toBe(postSignature(post));
+  });
+
+  it('ignores fields the list does not show', () => {
+    expect(postSignature({ ...post, reads: 10 })).toBe(postSignature(post));
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Topic response cache.
+ *
+ * Topic responses are kept in memory and in sessionStorage, keyed by
+ * forum, topic and who is asking, so coming back to a page can show its
+ * comments straight away. Entries younger than the TTL are used as they
+ * are; older ones are shown while a fresh copy is fetched.
+ */
+
+import { normalizeBaseUrl } from './utils.js';
+
+const CACHE_PREFIX = 'discourse-comments-cache:';
+
+export const DEFAULT_CACHE_TTL = 60_000;
+
+// Past this even a stale copy is more confusing than a loading message
+const MAX_STALE_AGE = 24 * 60 * 60_000;
+
+interface CacheEntry {
+  topic: unknown;
+  fetchedAt: number;
+  // Set once we know the forum's copy has changed, e.g. after posting
+  stale?: boolean;
+}
+
+export interface CachedTopic<T> {
+  topic: T;
+  fresh: boolean;
+}
+
+// Serialized, so callers can't change cached data through the objects they get back
+const memory: Map<string, string> = new Map();
+
+// A short FNV-1a hash, so the API key itself never ends up in a storage key
+function hashIdentity(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+export function topicCacheKey(discourseUrl: string, topicId: number, apiKey: string | null): string {
+  const identity = apiKey ? `user-${hashIdentity(apiKey)}` : 'anonymous';
+  return `${CACHE_PREFIX}${normalizeBaseUrl(discourseUrl)}:${topicId}:${identity}`;
+}
+
+function readEntry(key: string): CacheEntry | null {
+  let serialized = memory.get(key);
+  if (serialized === undefined) {
+    try {
+      serialized = sessionStorage.getItem(key) ?? undefined;
+    } catch {
+      // Storage can be blocked entirely; memory still works
+    }
+  }
+  if (serialized === undefined) return null;
+
+  try {
+    const entry = JSON.parse(serialized);
+    if (entry && typeof entry.fetchedAt === 'number' && entry.topic) return entry;
+  } catch {
+    // Fall through and drop it
+  }
+  removeEntry(key);
+  return null;
+}
+
+function writeEntry(key: string, entry: CacheEntry) {
+  const serialized = JSON.stringify(entry);
+  memory.set(key, serialized);
+  try {
+    sessionStorage.setItem(key, serialized);
+  } catch {
+    // Most likely full: make room by dropping the other cached topics
+    try {
+      clearTopicCache();
+      memory.set(key, serialized);
+      sessionStorage.setItem(key, serialized);
+    } catch {
+      // Keep the in-memory copy only
+    }
+  }
+}
+
+function removeEntry(key: string) {
+  memory.delete(key);
+  try {
+    sessionStorage.removeItem(key);
+  } catch {
+    // Nothing stored there then
+  }
+}
+
+export function readCachedTopic<T>(key: string, ttl: number, now: number = Date.now()): CachedTopic<T> | null {
+  const entry = readEntry(key);
+  if (!entry) return null;
+
+  const age = now - entry.fetchedAt;
+  if (age > MAX_STALE_AGE) {
+    removeEntry(key);
+    return null;
+  }
+  return { topic: entry.topic as T, fresh: !entry.stale && age < ttl };
+}
+
+export function writeCachedTopic(key: string, topic: unknown, now: number = Date.now()) {
+  writeEntry(key, { topic, fetchedAt: now });
+}
+
+/**
+ * Keep showing a cached topic, but fetch it again the next time it's used.
+ */
+export function markTopicStale(key: string) {
+  const entry = readEntry(key);
+  if (entry && !entry.stale) {
+    writeEntry(key, { ...entry, stale: true });
+  }
+}
+
+export function clearTopicCache() {
+  memory.clear();
+  try {
+    for (let i = sessionStorage.length - 1; i >= 0; i--) {
+      const key = sessionStorage.key(i);
+      if (key?.startsWith(CACHE_PREFIX)) sessionStorage.removeItem(key);
+    }
+  } catch {
+    // Storage is blocked, so there's nothing to clear
+  }
+}
+
+/**
+ * The parts of a post that show up in the comment list, to tell whether a
+ * refreshed post needs to be rendered again.
+ */
+export function postSignature(post: object): string {
+  const {
+    cooked, like_count, actions_summary, reactions, current_user_reaction,
+    user_deleted, deleted_at, can_edit, can_delete, reply_to_post_number,
+  } = post as Record<string, unknown>;
+  return JSON.stringify([
+    cooked, like_count, actions_summary, reactions, current_user_reaction,
+    user_deleted, deleted_at, can_edit, can_delete, reply_to_post_number,
+  ]);
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  clearCommentCounts,
+  findTopicId,
+  getCommentCount,
+  getEmbedCommentCount,
+  peekCommentCount,
+  rememberCommentCount,
+} from './comment-count.js';
+
+function jsonResponse(status: number, body: unknown = {}) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+function topicList(...topics: Array<[number, number]>) {
+  return jsonResponse(200, { topic_list: { topics: topics.map(([id, posts_count]) => ({ id, posts_count })) } });
+}
+
+describe('getCommentCount', () => {
+  beforeEach(() => {
+    clearCommentCounts();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fetches counts asked for together in one request', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(topicList([1, 4], [2, 9]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const counts = await Promise.all([
+      getCommentCount('https://forum.example.com/', 1),
+      getCommentCount('https://forum.example.com', 2),
+    ]);
+
+    expect(counts).toEqual([3, 8]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://forum.example.com/latest.json?topic_ids=1,2');
+  });
+
+  it('shares requests and cached counts between callers', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(topicList([1, 4]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const [first, second] = await Promise.all([
+      getCommentCount('https://forum.example.com', 1),
+      getCommentCount('https://forum.example.com', 1),
+    ]);
+    const later = await getCommentCount('https://forum.example.com', 1);
+
+    expect([first, second, later]).toEqual([3, 3, 3]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('splits large batches into topic list pages', async () => {
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const ids = new URL(url).searchParams.get('topic_ids')!.split(',').map(Number);
+      return topicList(...ids.map((id): [number, number] => [id, id + 1]));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const ids = Array.from({ length: 45 }, (_, i) => i + 1);
+    const counts = await Promise.all(ids.map(id => getCommentCount('https://forum.example.com', id)));
+
+    expect(counts).toEqual(ids);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('fetches topics missing from the list one by one', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(topicList([1, 4]))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 2, posts_count: 3 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const counts = await Promise.all([
+      getCommentCount('https://forum.example.com', 1),
+      getCommentCount('https://forum.example.com', 2),
+    ]);
+
+    expect(counts).toEqual([3, 2]);
+    expect(fetchMock.mock.calls[1][0]).toBe('https://forum.example.com/t/2.json');
+  });
+
+  it('leaves the opening post out of the count', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(topicList([1, 1])));
+
+    expect(await getCommentCount('https://forum.example.com', 1)).toBe(0);
+  });
+
+  it('returns null for topics the forum does not show', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(topicList())
+      .mockResolvedValueOnce(jsonResponse(404)));
+
+    expect(await getCommentCount('https://forum.example.com', 5)).toBeNull();
+  });
+
+  it('rejects when the forum fails, and asks again next time', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(500))
+      .mockResolvedValueOnce(topicList([1, 4]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(getCommentCount('https://forum.example.com', 1)).rejects.toThrow('HTTP 500');
+    expect(await getCommentCount('https://forum.example.com', 1)).toBe(3);
+  });
+
+  it('uses counts remembered from full topic loads', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    rememberCommentCount('https://forum.example.com', 1, 12);
+
+    expect(await getCommentCount('https://forum.example.com/', 1)).toBe(11);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('peekCommentCount', () => {
+  beforeEach(() => {
+    clearCommentCounts();
+  });
+
+  it('only returns recent counts', () => {
+    rememberCommentCount('https://forum.example.com', 1, 12, 1000);
+
+    expect(peekCommentCount('https://forum.example.com', 1, 30_000)).toBe(11);
+    expect(peekCommentCount('https://forum.example.com', 1, 120_000)).toBeUndefined();
+    expect(peekCommentCount('https://forum.example.com', 2, 1000)).toBeUndefined();
+  });
+});
+
+describe('getEmbedCommentCount', () => {
+  beforeEach(() => {
+    clearCommentCounts();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('counts pages asked for together in one request', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {
+      counts: { 'https://blog.example.com/a': '3 replies', 'https://blog.example.com/b#discourse-comments': '1 reply' },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const counts = await Promise.all([
+      getEmbedCommentCount('https://forum.example.com', 'https://blog.example.com/a/'),
+      getEmbedCommentCount('https://forum.example.com/', 'https://blog.example.com/b'),
+    ]);
+    const later = await getEmbedCommentCount('https://forum.example.com', 'https://blog.example.com/a');
+
+    expect([...counts, later]).toEqual([3, 1, 3]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.pathname).toBe('/embed/count');
+    expect(url.searchParams.getAll('embed_url[]')).toEqual(['https://blog.example.com/a', 'https://blog.example.com/b']);
+  });
+
+  it('looks up the topic of pages the forum does not count', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(200, { counts: {} }))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 7 }))
+      .mockResolvedValueOnce(topicList([7, 5]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await getEmbedCommentCount('https://forum.example.com', 'https://blog.example.com/a', 'post-a')).toBe(4);
+    expect(fetchMock.mock.calls[1][0]).toBe('https://forum.example.com/t/external_id/post-a.json');
+  });
+
+  it('falls back to lookups when the forum refuses the embed count', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(jsonResponse(403))
+      .mockResolvedValueOnce(jsonResponse(404))
+      .mockResolvedValueOnce(jsonResponse(404)));
+
+    expect(await getEmbedCommentCount('https://forum.example.com', 'https://blog.example.com/new', 'new')).toBe(0);
+  });
+});
+
+describe('findTopicId', () => {
+  beforeEach(() => {
+    clearCommentCounts();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('looks each page up once', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { id: 42 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const ids = await Promise.all([
+      findTopicId('https://forum.example.com', 'https://blog.example.com/a', 'post-a'),
+      findTopicId('https://forum.example.com/', 'https://blog.example.com/a', 'post-a'),
+    ]);
+
+    expect(ids).toEqual([42, 42]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://forum.example.com/t/external_id/post-a.json');
+  });
+
+  it('tries a failed lookup again', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(500))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 42 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(findTopicId('https://forum.example.com', 'https://blog.example.com/a', 'post-a')).rejects.toThrow();
+    expect(await findTopicId('https://forum.example.com', 'https://blog.example.com/a', 'post-a')).toBe(42);
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Comment counts for <discourse-comment-count>.
+ *
+ * Counts are shared by every element on the page. Counts asked for within
+ * a few milliseconds of each other, e.g. by a list of articles as it's
+ * parsed, go to the forum together: topics as one topic list request,
+ * pages as one embed count request.
+ */
+
+import { externalIdForUrl, lookupTopicId } from './embed.js';
+import { getErrorStatus } from './mutations.js';
+import { fetchJson, isRecord, normalizeBaseUrl } from './utils.js';
+
+export const COUNT_CACHE_TTL = 60_000;
+
+// Long enough for an index page's elements to connect, short enough to go unnoticed
+const BATCH_DELAY = 20;
+
+// Discourse topic lists hold 30 topics a page. Embed counts use the same
+// size, which keeps the query string well under URL length limits.
+const BATCH_SIZE = 30;
+
+interface CachedCount {
+  // null for topics the forum doesn't show us
+  count: number | null;
+  fetchedAt: number;
+}
+
+interface Deferred {
+  promise: Promise<number | null>;
+  resolve: (count: number | null) => void;
+  reject: (error: unknown) => void;
+}
+
+const counts: Map<string, CachedCount> = new Map();
+const inFlight: Map<string, Promise<number | null>> = new Map();
+// Topics waiting for the next batch, per forum
+const batches: Map<string, Map<number, Deferred>> = new Map();
+// Pages waiting for the next embed count batch, per forum
+const pageBatches: Map<string, Map<string, Deferred>> = new Map();
+const topicLookups: Map<string, Promise<number | null>> = new Map();
+
+/**
+ * Comments in a topic with this many posts. Discourse counts the opening
+ * post, which isn't a comment.
+ */
+export function commentsInTopic(postsCount: number): number {
+  return Math.max(0, postsCount - 1);
+}
+
+function countKey(base: string, topicId: number): string {
+  return `${base}:${topicId}`;
+}
+
+// Discourse matches embed URLs without a trailing slash or its #discourse-comments hash
+function pageKey(embedUrl: string): string {
+  return embedUrl.replace(/#discourse-comments$/, '').replace(/\/+$/, '');
+}
+
+function pageCountKey(base: string, embedUrl: string): string {
+  return `${base}:${pageKey(embedUrl)}`;
+}
+
+function createDeferred(): Deferred {
+  let resolve!: Deferred['resolve'];
+  let reject!: Deferred['reject'];
+  const promise = new Promise<number | null>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/**
+ * A topic's comment count if it's cached and recent, without asking the forum.
+ * Returns undefined when it isn't known.
+ */
+export function peekCommentCount(
+  discourseUrl: string,
+  topicId: number,
+  now: number = Date.now()
+): number | null | undefined {
+  const cached = counts.get(countKey(normalizeBaseUrl(discourseUrl), topicId));
+  if (!cached || now - cached.fetchedAt >= COUNT_CACHE_TTL) return undefined;
+  return cached.count;
+}
+
+/**
+ * Share a count learned some other way, e.g. from a full topic load.
+ * Takes the topic's posts_count, opening post included.
+ */
+export function rememberCommentCount(discourseUrl: string, topicId: number, postsCount: number, now: number = Date.now()) {
+  counts.set(countKey(normalizeBaseUrl(discourseUrl), topicId), { count: commentsInTopic(postsCount), fetchedAt: now });
+}
+
+export function clearCommentCounts() {
+  counts.clear();
+  topicLookups.clear();
+}
+
+/**
+ * A topic's comment count, or null when the forum doesn't show the topic.
+ */
+export function getCommentCount(discourseUrl: string, topicId: number): Promise<number | null> {
+  const base = normalizeBaseUrl(discourseUrl);
+  const key = countKey(base, topicId);
+
+  const cached = peekCommentCount(base, topicId);
+  if (cached !== undefined) return Promise.resolve(cached);
+
+  const running = inFlight.get(key);
+  if (running) return running;
+
+  let batch = batches.get(base);
+  if (!batch) {
+    batch = new Map();
+    batches.set(base, batch);
+    setTimeout(() => flushBatch(base), BATCH_DELAY);
+  }
+  const deferred = createDeferred();
+  batch.set(topicId, deferred);
+  inFlight.set(key, deferred.promise);
+  return deferred.promise;
+}
+
+async function flushBatch(base: string) {
+  const batch = batches.get(base);
+  batches.delete(base);
+  if (!batch) return;
+
+  const ids = Array.from(batch.keys());
+  const chunks: number[][] = [];
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    chunks.push(ids.slice(i, i + BATCH_SIZE));
+  }
+
+  await Promise.all(chunks.map(async chunk => {
+    try {
+      const fetched = await fetchCounts(base, chunk);
+      for (const id of chunk) {
+        const count = fetched.get(id) ?? null;
+        counts.set(countKey(base, id), { count, fetchedAt: Date.now() });
+        batch.get(id)!.resolve(count);
+      }
+    } catch (error) {
+      chunk.forEach(id => batch.get(id)!.reject(error));
+    } finally {
+      chunk.forEach(id => inFlight.delete(countKey(base, id)));
+    }
+  }));
+}
+
+async function fetchCounts(base: string, ids: number[]): Promise<Map<number, number | null>> {
+  const data = await fetchJson(`${base}/latest.json?topic_ids=${ids.join(',')}`);
+  const list = isRecord(data) && isRecord(data.topic_list) ? data.topic_list : {};
+
+  const wanted = new Set(ids);
+  const fetched: Map<number, number | null> = new Map();
+  for (const topic of Array.isArray(list.topics) ? list.topics : []) {
+    if (!isRecord(topic)) continue;
+    const id = Number(topic.id);
+    if (wanted.has(id) && typeof topic.posts_count === 'number') {
+      fetched.set(id, commentsInTopic(topic.posts_count));
+    }
+  }
+
+  // Unlisted topics, which embedded discussions often are, stay out of topic lists
+  const missing = ids.filter(id => !fetched.has(id));
+  await Promise.all(missing.map(async id => {
+    fetched.set(id, await fetchTopicCount(base, id));
+  }));
+  return fetched;
+}
+
+async function fetchTopicCount(base: string, topicId: number): Promise<number | null> {
+  let data: unknown;
+  try {
+    data = await fetchJson(`${base}/t/${topicId}.json`);
+  } catch (error) {
+    const status = getErrorStatus(error);
+    if (status === 404 || status === 403) return null;
+    throw error;
+  }
+  return isRecord(data) && typeof data.posts_count === 'number' ? commentsInTopic(data.posts_count) : null;
+}
+
+/**
+ * The comment count for a page, or null when the forum doesn't show its
+ * topic. Pages are counted by URL through the forum's embed count
+ * endpoint. Pages it doesn't know, e.g. ones whose topic was started from
+ * <discourse-comments>, fall back to looking the topic up.
+ */
+export async function getEmbedCommentCount(
+  discourseUrl: string,
+  embedUrl: string,
+  externalId: string = ''
+): Promise<number | null> {
+  const base = normalizeBaseUrl(discourseUrl);
+  const byUrl = await getPageCount(base, embedUrl);
+  if (byUrl !== null) return byUrl;
+
+  const topicId = await findTopicId(base, embedUrl, externalId);
+  // Pages without a discussion yet have no comments
+  return topicId === null ? 0 : getCommentCount(base, topicId);
+}
+
+function getPageCount(base: string, embedUrl: string): Promise<number | null> {
+  const key = pageCountKey(base, embedUrl);
+
+  const cached = counts.get(key);
+  if (cached && Date.now() - cached.fetchedAt < COUNT_CACHE_TTL) return Promise.resolve(cached.count);
+
+  const running = inFlight.get(key);
+  if (running) return running;
+
+  let batch = pageBatches.get(base);
+  if (!batch) {
+    batch = new Map();
+    pageBatches.set(base, batch);
+    setTimeout(() => flushPageBatch(base), BATCH_DELAY);
+  }
+  const deferred = createDeferred();
+  batch.set(pageKey(embedUrl), deferred);
+  inFlight.set(key, deferred.promise);
+  return deferred.promise;
+}
+
+async function flushPageBatch(base: string) {
+  const batch = pageBatches.get(base);
+  pageBatches.delete(base);
+  if (!batch) return;
+
+  const urls = Array.from(batch.keys());
+  const chunks: string[][] = [];
+  for (let i = 0; i < urls.length; i += BATCH_SIZE) {
+    chunks.push(urls.slice(i, i + BATCH_SIZE));
+  }
+
+  await Promise.all(chunks.map(async chunk => {
+    try {
+      const fetched = await fetchPageCounts(base, chunk);
+      for (const url of chunk) {
+        const count = fetched.get(url) ?? null;
+        counts.set(pageCountKey(base, url), { count, fetchedAt: Date.now() });
+        batch.get(url)!.resolve(count);
+      }
+    } catch {
+      // Forums that don't let this page use the endpoint can still be asked topic by topic
+      chunk.forEach(url => batch.get(url)!.resolve(null));
+    } finally {
+      chunk.forEach(url => inFlight.delete(pageCountKey(base, url)));
+    }
+  }));
+}
+
+async function fetchPageCounts(base: string, urls: string[]): Promise<Map<string, number>> {
+  const params = new URLSearchParams();
+  urls.forEach(url => params.append('embed_url[]', url));
+  const data = await fetchJson(`${base}/embed/count?${params}`);
+
+  const fetched: Map<string, number> = new Map();
+  for (const [url, label] of Object.entries(isRecord(data) && isRecord(data.counts) ? data.counts : {})) {
+    // A label like "11 replies" in the forum's language, opening post already left out
+    const count = typeof label === 'string' ? /\d+/.exec(label) : null;
+    if (count) fetched.set(pageKey(url), Number(count[0]));
+  }
+  return fetched;
+}
+
+/**
+ * Find the topic for a page like <discourse-comments embed-url> does,
+ * looking each page up once however many elements point at it.
+ */
+export function findTopicId(discourseUrl: string, embedUrl: string, externalId: string = ''): Promise<number | null> {
+  const base = normalizeBaseUrl(discourseUrl);
+  const key = `${base}:${externalId}:${embedUrl}`;
+
+  let lookup = topicLookups.get(key);
+  if (!lookup) {
+    lookup = (async () => lookupTopicId(base, embedUrl, externalId || await externalIdForUrl(embedUrl)))();
+    // Let the next element try again rather than sharing a failure
+    lookup.catch(() => topicLookups.delete(key));
+    topicLookups.set(key, lookup);
+  }
+  return lookup;
+}
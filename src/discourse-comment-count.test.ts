@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import './discourse-comment-count.js';
+import { clearCommentCounts } from './comment-count.js';
+
+function jsonResponse(status: number, body: unknown = {}) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+function mountCount(attrs: Record<string, string>) {
+  const el = document.createElement('discourse-comment-count');
+  for (const [name, value] of Object.entries(attrs)) {
+    el.setAttribute(name, value);
+  }
+  document.body.appendChild(el);
+  return el;
+}
+
+function labelOf(el: HTMLElement): string {
+  return el.shadowRoot!.querySelector('.count')!.textContent || '';
+}
+
+describe('DiscourseCommentCount', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    clearCommentCounts();
+    fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {
+      topic_list: { topics: [{ id: 1, posts_count: 12 }, { id: 2, posts_count: 2 }] },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.unstubAllGlobals();
+  });
+
+  it('registers as a custom element', () => {
+    expect(customElements.get('discourse-comment-count')).toBeDefined();
+  });
+
+  it('shows the topic\'s comment count', async () => {
+    const el = mountCount({ 'discourse-url': 'https://forum.example.com', 'topic-id': '1' });
+
+    await vi.waitFor(() => expect(labelOf(el)).toBe('11 comments'));
+    expect(el.count).toBe(11);
+  });
+
+  it('batches every element on the page into one request', async () => {
+    const first = mountCount({ 'discourse-url': 'https://forum.example.com', 'topic-id': '1' });
+    const second = mountCount({ 'discourse-url': 'https://forum.example.com', 'topic-id': '2' });
+
+    await vi.waitFor(() => expect(labelOf(second)).toBe('1 comment'));
+    expect(labelOf(first)).toBe('11 comments');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts pages by embed-url in one request', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, {
+      counts: { 'https://blog.example.com/posts/a': '4 replies', 'https://blog.example.com/posts/b': '1 reply' },
+    }));
+
+    const first = mountCount({ 'discourse-url': 'https://forum.example.com', 'embed-url': 'https://blog.example.com/posts/a' });
+    const second = mountCount({ 'discourse-url': 'https://forum.example.com', 'embed-url': 'https://blog.example.com/posts/b' });
+
+    await vi.waitFor(() => expect(labelOf(second)).toBe('1 comment'));
+    expect(labelOf(first)).toBe('4 comments');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('finds the topic by external-id', async () => {
+    fetchMock.mockReset()
+      .mockResolvedValueOnce(jsonResponse(200, { counts: {} }))
+      .mockResolvedValueOnce(jsonResponse(200, { id: 1 }))
+      .mockResolvedValueOnce(jsonResponse(200, { topic_list: { topics: [{ id: 1, posts_count: 12 }] } }));
+
+    const el = mountCount({
+      'discourse-url': 'https://forum.example.com',
+      'embed-url': 'https://blog.example.com/posts/hello',
+      'external-id': 'hello',
+    });
+
+    await vi.waitFor(() => expect(labelOf(el)).toBe('11 comments'));
+    expect(fetchMock.mock.calls[1][0]).toBe('https://forum.example.com/t/external_id/hello.json');
+  });
+
+  it('shows no comments for pages without a discussion', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404));
+
+    const el = mountCount({
+      'discourse-url': 'https://forum.example.com',
+      'embed-url': 'https://blog.example.com/posts/new',
+      'external-id': 'new',
+    });
+
+    await vi.waitFor(() => expect(labelOf(el)).toBe('0 comments'));
+  });
+
+  it('uses the locale attribute', async () => {
+    const el = mountCount({ 'discourse-url': 'https://forum.example.com', 'topic-id': '1', locale: 'de' });
+
+    await vi.waitFor(() => expect(labelOf(el)).toBe('11 Kommentare'));
+  });
+
+  it('follows topic-id changes', async () => {
+    const el = mountCount({ 'discourse-url': 'https://forum.example.com', 'topic-id': '1' });
+    await vi.waitFor(() => expect(labelOf(el)).toBe('11 comments'));
+
+    el.setAttribute('topic-id', '2');
+
+    await vi.waitFor(() => expect(labelOf(el)).toBe('1 comment'));
+  });
+
+  it('stays empty when the count cannot be loaded', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(jsonResponse(500));
+
+    const el = mountCount({ 'discourse-url': 'https://forum.example.com', 'topic-id': '1' });
+
+    await vi.waitFor(() => expect(console.warn).toHaveBeenCalled());
+    expect(labelOf(el)).toBe('');
+    expect(el.count).toBeNull();
+    vi.mocked(console.warn).mockRestore();
+  });
+});
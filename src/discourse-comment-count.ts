@@ -0,0 +1,100 @@
+/**
+ * <discourse-comment-count> - How many comments a discussion has, for
+ * article listings that link to pages with <discourse-comments>.
+ *
+ * Attributes:
+ *   discourse-url="https://..."      Forum base URL
+ *   topic-id="123"                   Topic to count
+ *   embed-url / embed-url="https://..." Find the topic by page URL, as <discourse-comments> does
+ *   external-id="..."                External ID to look the topic up by in embed-url mode
+ *   locale="de"                      Language for the label (defaults to the page's lang)
+ *
+ * All count elements on a page share one cache, and counts they ask for
+ * together are fetched in batches, by topic or by page URL. Counts are
+ * fetched anonymously.
+ */
+
+import { getCommentCount, getEmbedCommentCount } from './comment-count.js';
+import { getCanonicalUrl } from './embed.js';
+import { resolveLocale, translate } from './i18n.js';
+
+const styles = `
+  :host {
+    display: inline;
+  }
+`;
+
+class DiscourseCommentCount extends HTMLElement {
+  private shadow: ShadowRoot;
+  private currentCount: number | null = null;
+  // Bumped on every update, so a slow answer for old attributes is dropped
+  private generation: number = 0;
+
+  constructor() {
+    super();
+    this.shadow = this.attachShadow({ mode: 'open' });
+    this.shadow.innerHTML = `<style>${styles}</style><span class="count" part="count"></span>`;
+  }
+
+  static get observedAttributes() {
+    return ['discourse-url', 'topic-id', 'embed-url', 'external-id', 'locale'];
+  }
+
+  connectedCallback() {
+    this.update();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string, newValue: string) {
+    // connectedCallback loads once all initial attributes are in place
+    if (oldValue !== newValue && this.isConnected) {
+      this.update();
+    }
+  }
+
+  /** The topic's comment count, or null until it's known. */
+  get count(): number | null {
+    return this.currentCount;
+  }
+
+  private async update() {
+    const generation = ++this.generation;
+    this.show(null);
+
+    const discourseUrl = this.getAttribute('discourse-url') || '';
+    const topicId = Number(this.getAttribute('topic-id'));
+    const embedUrl = this.getAttribute('embed-url');
+    const hasTopicId = Number.isInteger(topicId) && topicId > 0;
+    if (!discourseUrl || (!hasTopicId && embedUrl === null)) return;
+
+    try {
+      const count = hasTopicId
+        ? await getCommentCount(discourseUrl, topicId)
+        : await getEmbedCommentCount(discourseUrl, embedUrl || getCanonicalUrl(), this.getAttribute('external-id') || '');
+      if (generation === this.generation) {
+        this.show(count);
+      }
+    } catch (error) {
+      console.warn('Failed to load comment count:', error);
+    }
+  }
+
+  private show(count: number | null) {
+    this.currentCount = count;
+    const label = this.shadow.querySelector('.count');
+    if (label) {
+      label.textContent = count === null
+        ? ''
+        : translate(resolveLocale(this.getAttribute('locale')), 'commentCount', { count });
+    }
+  }
+}
+
+customElements.define('discourse-comment-count', DiscourseCommentCount);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'discourse-comment-count': DiscourseCommentCount;
+  }
+}
+
+export { DiscourseCommentCount };
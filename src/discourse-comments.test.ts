@@ -1,30 +1,46 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import 'fake-indexeddb/auto';
 
 // Mock discourse-api-ts before importing the component
 const mockGetTopic = vi.fn();
 const mockCreatePost = vi.fn();
 const mockLikePost = vi.fn();
 const mockUnlikePost = vi.fn();
+const mockGetTopicPosts = vi.fn();
+const mockGetPost = vi.fn();
+const mockUpdatePost = vi.fn();
+const mockDeletePost = vi.fn();
 
 const mockClientInstance = {
   getTopic: mockGetTopic,
   createPost: mockCreatePost,
   likePost: mockLikePost,
   unlikePost: mockUnlikePost,
+  getTopicPosts: mockGetTopicPosts,
+  getPost: mockGetPost,
+  updatePost: mockUpdatePost,
+  deletePost: mockDeletePost,
 };
 
-vi.mock('discourse-api-ts', () => {
+vi.mock('discourse-api-ts', async importOriginal => {
+  const { RequestError } = await importOriginal<typeof import('discourse-api-ts')>();
   function MockDiscourseClient() {
     return mockClientInstance;
   }
   MockDiscourseClient.withUserApiKey = vi.fn(() => mockClientInstance);
   MockDiscourseClient.withApiKey = vi.fn(() => mockClientInstance);
   MockDiscourseClient.prototype = {};
-  return { DiscourseClient: MockDiscourseClient };
+  return { DiscourseClient: MockDiscourseClient, RequestError };
 });
 
 // Import after mock setup
-import { DiscourseClient } from 'discourse-api-ts';
+import { DiscourseClient, RequestError } from 'discourse-api-ts';
+import type { DiscourseComments } from './discourse-comments.js';
+import { clearOutbox, listQueued } from './outbox.js';
+import { clearTopicCache } from './cache.js';
+import { clearCommentCounts, rememberCommentCount } from './comment-count.js';
+import { clearEmojiCache } from './autocomplete.js';
+import axe from 'axe-core';
 
 const sampleTopicResponse = {
   title: 'Test Topic',
@@ -66,15 +82,38 @@ const sampleTopicResponse = {
   },
 };
 
-function createElement(attrs: Record<string, string> = {}): HTMLElement {
+function makePost(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    username: `user${id}`,
+    created_at: new Date().toISOString(),
+    cooked: `<p>Post ${id}</p>`,
+    post_number: id,
+    post_type: 1,
+    reply_count: 0,
+    quote_count: 0,
+    reads: 0,
+    score: 0,
+    topic_id: 42,
+    yours: false,
+    like_count: 0,
+    actions_summary: [],
+    ...overrides,
+  };
+}
+
+function createElement(attrs: Record<string, string> = {}): DiscourseComments {
   const el = document.createElement('discourse-comments');
   el.setAttribute('discourse-url', attrs['discourse-url'] || 'https://forum.example.com');
-  el.setAttribute('topic-id', attrs['topic-id'] || '42');
-  if (attrs['client-id']) el.setAttribute('client-id', attrs['client-id']);
+  // Embed-url mode looks the topic up instead
+  if (!('embed-url' in attrs)) el.setAttribute('topic-id', attrs['topic-id'] || '42');
+  for (const [name, value] of Object.entries(attrs)) {
+    if (name !== 'discourse-url' && name !== 'topic-id') el.setAttribute(name, value);
+  }
   return el;
 }
 
-async function mountElement(attrs: Record<string, string> = {}): Promise<HTMLElement> {
+async function mountElement(attrs: Record<string, string> = {}): Promise<DiscourseComments> {
   const el = createElement(attrs);
   document.body.appendChild(el);
   // Wait for connectedCallback + loadComments to finish
@@ -85,7 +124,8 @@ async function mountElement(attrs: Record<string, string> = {}): Promise<HTMLEle
     const hasComments = shadow.querySelectorAll('.comment').length > 0;
     const hasError = shadow.querySelector('.error') !== null;
     const hasHeader = shadow.querySelector('.comments-header .auth-section') !== null;
-    if (!hasComments && !hasError && !hasHeader) throw new Error('still loading');
+    const isEmpty = shadow.querySelector('.empty-state') !== null;
+    if (!hasComments && !hasError && !hasHeader && !isEmpty) throw new Error('still loading');
   }, { timeout: 2000 });
   return el;
 }
@@ -94,6 +134,8 @@ describe('DiscourseComments', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     localStorage.clear();
+    clearTopicCache();
+    clearCommentCounts();
     mockGetTopic.mockResolvedValue(sampleTopicResponse);
     mockCreatePost.mockResolvedValue({ id: 99, topic_id: 42 });
     mockLikePost.mockResolvedValue({});
@@ -242,6 +284,39 @@ describe('DiscourseComments', () => {
     expect(error?.textContent).toContain('Network error');
   });
 
+  it('escapes server-provided text and sanitizes cooked HTML', async () => {
+    mockGetTopic.mockResolvedValue({
+      title: '<img src=x onerror="window.__pwned = true">',
+      post_stream: {
+        posts: [
+          makePost(1, {
+            username: '<b>mallory</b>',
+            cooked: '<p>hi</p><script>window.__pwned = true</script><img src="x" onerror="window.__pwned = true">',
+          }),
+        ],
+      },
+    });
+
+    const el = await mountElement();
+    const shadow = el.shadowRoot!;
+
+    expect(shadow.querySelector('.comments-title')?.textContent).toBe('<img src=x onerror="window.__pwned = true">');
+    expect(shadow.querySelector('.comments-title img')).toBeNull();
+    expect(shadow.querySelector('.comment-author')?.textContent).toBe('<b>mallory</b>');
+    expect(shadow.querySelector('.comment-content script')).toBeNull();
+    expect(shadow.querySelector('.comment-content img')?.hasAttribute('onerror')).toBe(false);
+  });
+
+  it('escapes error messages', async () => {
+    mockGetTopic.mockRejectedValue(new Error('<img src=x onerror=alert(1)>'));
+
+    const el = await mountElement();
+    const error = el.shadowRoot!.querySelector('.error')!;
+
+    expect(error.querySelector('img')).toBeNull();
+    expect(error.textContent).toContain('<img src=x onerror=alert(1)>');
+  });
+
   it('creates anonymous client when no API key', async () => {
     const el = await mountElement();
 
@@ -263,4 +338,2393 @@ describe('DiscourseComments', () => {
       'test-api-key'
     );
   });
-});
+
+  describe('pagination', () => {
+    const pagedResponse = {
+      title: 'Paged Topic',
+      post_stream: {
+        posts: [makePost(1), makePost(2)],
+        stream: [1, 2, 3, 4, 5],
+      },
+    };
+
+    it('shows a load more button when the stream has unloaded posts', async () => {
+      mockGetTopic.mockResolvedValue(pagedResponse);
+
+      const el = await mountElement();
+      const loadMoreBtn = el.shadowRoot!.getElementById('load-more-btn');
+
+      expect(loadMoreBtn).not.toBeNull();
+      expect(loadMoreBtn?.textContent).toContain('3');
+    });
+
+    it('does not show a load more button when every post is loaded', async () => {
+      const el = await mountElement();
+      expect(el.shadowRoot!.getElementById('load-more-btn')).toBeNull();
+    });
+
+    it('fetches the next batch of post IDs using page-size', async () => {
+      mockGetTopic.mockResolvedValue(pagedResponse);
+      mockGetTopicPosts.mockResolvedValue({
+        post_stream: { posts: [makePost(4), makePost(3)] },
+      });
+
+      const el = await mountElement({ 'page-size': '2' });
+      const shadow = el.shadowRoot!;
+      const firstComment = shadow.querySelector('.comment');
+
+      (shadow.getElementById('load-more-btn') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        expect(shadow.querySelectorAll('.comment').length).toBe(4);
+      });
+
+      expect(mockGetTopicPosts).toHaveBeenCalledWith(42, [3, 4]);
+
+      // Existing posts are kept, new ones are appended in stream order
+      expect(shadow.querySelector('.comment')).toBe(firstComment);
+      const ids = Array.from(shadow.querySelectorAll('.comment')).map(c => c.getAttribute('data-post-id'));
+      expect(ids).toEqual(['1', '2', '3', '4']);
+      expect(shadow.getElementById('load-more-btn')?.textContent).toContain('1');
+    });
+
+    it('removes the button once the stream is exhausted', async () => {
+      mockGetTopic.mockResolvedValue(pagedResponse);
+      mockGetTopicPosts.mockResolvedValue({
+        post_stream: { posts: [makePost(3), makePost(4), makePost(5)] },
+      });
+
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      (shadow.getElementById('load-more-btn') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        expect(shadow.querySelectorAll('.comment').length).toBe(5);
+      });
+      expect(shadow.getElementById('load-more-btn')).toBeNull();
+    });
+
+    it('falls back to the load more button in infinite mode without IntersectionObserver', async () => {
+      mockGetTopic.mockResolvedValue(pagedResponse);
+
+      const el = await mountElement({ pagination: 'infinite' });
+      expect(el.shadowRoot!.getElementById('load-more-btn')).not.toBeNull();
+    });
+  });
+
+  describe('threaded layout', () => {
+    const threadedResponse = {
+      title: 'Threaded Topic',
+      post_stream: {
+        posts: [
+          makePost(1),
+          makePost(2, { reply_to_post_number: 1 }),
+          makePost(3, { reply_to_post_number: 2 }),
+          makePost(4, { reply_to_post_number: 3 }),
+          makePost(5),
+          makePost(6, { reply_to_post_number: 99 }),
+        ],
+        stream: [1, 2, 3, 4, 5, 6],
+      },
+    };
+
+    function threadFor(shadow: ShadowRoot, postNumber: number) {
+      return shadow.querySelector(`.comment-thread[data-post-number="${postNumber}"]`) as HTMLElement;
+    }
+
+    it('renders flat by default', async () => {
+      mockGetTopic.mockResolvedValue(threadedResponse);
+
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      expect(shadow.querySelector('.comment-thread')).toBeNull();
+      expect(shadow.querySelectorAll('.comments-list > .comment').length).toBe(6);
+    });
+
+    it('nests replies under the post they reply to', async () => {
+      mockGetTopic.mockResolvedValue(threadedResponse);
+
+      const el = await mountElement({ layout: 'threaded' });
+      const shadow = el.shadowRoot!;
+
+      const roots = Array.from(shadow.querySelectorAll('.comments-list > .comment-thread'))
+        .map(t => (t as HTMLElement).dataset.postNumber);
+      expect(roots).toEqual(['1', '5', '6']);
+
+      expect(threadFor(shadow, 2).parentElement?.parentElement).toBe(threadFor(shadow, 1));
+      expect(threadFor(shadow, 3).parentElement?.parentElement).toBe(threadFor(shadow, 2));
+      expect(threadFor(shadow, 3).dataset.depth).toBe('2');
+    });
+
+    it('collapses branches deeper than max-depth', async () => {
+      mockGetTopic.mockResolvedValue(threadedResponse);
+
+      const el = await mountElement({ layout: 'threaded', 'max-depth': '1' });
+      const shadow = el.shadowRoot!;
+
+      const collapsed = shadow.querySelector('.collapsed-replies') as HTMLElement;
+      expect(collapsed.hidden).toBe(true);
+      expect(collapsed.contains(threadFor(shadow, 3))).toBe(true);
+      expect(collapsed.contains(threadFor(shadow, 4))).toBe(true);
+
+      const showBtn = shadow.querySelector('.show-replies-btn') as HTMLButtonElement;
+      expect(showBtn.textContent).toBe('Show 2 more replies');
+
+      showBtn.click();
+      expect(collapsed.hidden).toBe(false);
+      expect(shadow.querySelector('.show-replies-btn')).toBeNull();
+    });
+
+    it('threads posts fetched by a later page under their parent', async () => {
+      mockGetTopic.mockResolvedValue({
+        title: 'Threaded Topic',
+        post_stream: { posts: [makePost(1)], stream: [1, 2] },
+      });
+      mockGetTopicPosts.mockResolvedValue({
+        post_stream: { posts: [makePost(2, { reply_to_post_number: 1 })] },
+      });
+
+      const el = await mountElement({ layout: 'threaded' });
+      const shadow = el.shadowRoot!;
+
+      (shadow.getElementById('load-more-btn') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        expect(threadFor(shadow, 2)).not.toBeNull();
+      });
+      expect(threadFor(shadow, 2).parentElement?.parentElement).toBe(threadFor(shadow, 1));
+    });
+  });
+
+  describe('reply and quote', () => {
+    beforeEach(() => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+    });
+
+    it('hides reply and quote buttons when logged out', async () => {
+      localStorage.clear();
+
+      const el = await mountElement();
+      expect(el.shadowRoot!.querySelector('.reply-btn')).toBeNull();
+      expect(el.shadowRoot!.querySelector('.quote-btn')).toBeNull();
+    });
+
+    it('posts a reply with the reply target and appends it', async () => {
+      mockCreatePost.mockResolvedValue({
+        ...makePost(99, { username: 'me', cooked: '<p>My reply</p>' }),
+        post_number: 3,
+        reply_to_post_number: 2,
+      });
+
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const firstComment = shadow.querySelector('.comment');
+
+      (shadow.querySelector('.reply-btn[data-post-id="2"]') as HTMLButtonElement).click();
+
+      const composer = shadow.querySelector('.comment[data-post-id="2"] .reply-composer')!;
+      (composer.querySelector('textarea') as HTMLTextAreaElement).value = 'My reply';
+      (composer.querySelector('.reply-submit') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        expect(shadow.querySelector('.comment[data-post-id="99"]')).not.toBeNull();
+      });
+
+      expect(shadow.querySelectorAll('.comment').length).toBe(3);
+      expect(mockCreatePost).toHaveBeenCalledWith(42, 'My reply', 2);
+      expect(shadow.querySelector('.comment')).toBe(firstComment);
+      expect(shadow.querySelector('.reply-composer')).toBeNull();
+      expect(shadow.querySelector('.comment[data-post-id="99"] .comment-content')?.innerHTML).toContain('My reply');
+    });
+
+    it('keeps the composer open with an error when the reply fails', async () => {
+      mockCreatePost.mockRejectedValue(new Error('Rate limited'));
+
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      (shadow.querySelector('.reply-btn[data-post-id="2"]') as HTMLButtonElement).click();
+      const composer = shadow.querySelector('.reply-composer')!;
+      (composer.querySelector('textarea') as HTMLTextAreaElement).value = 'My reply';
+      (composer.querySelector('.reply-submit') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        const error = composer.querySelector('.composer-error') as HTMLElement;
+        expect(error.hidden).toBe(false);
+        expect(error.textContent).toContain('Rate limited');
+      });
+      expect(shadow.querySelectorAll('.comment').length).toBe(2);
+    });
+
+    it('inserts quote markup for the whole post when nothing is selected', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      (shadow.querySelector('.quote-btn[data-post-id="2"]') as HTMLButtonElement).click();
+
+      const textarea = shadow.querySelector('.comment[data-post-id="2"] .reply-composer textarea') as HTMLTextAreaElement;
+      expect(textarea.value).toBe('[quote="bob, post:2, topic:42"]\nSecond post content\n[/quote]\n\n');
+    });
+
+    it('quotes only the selected text', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      // jsdom doesn't track selections inside shadow roots, so stub the
+      // Chromium-style ShadowRoot.getSelection() the component prefers
+      const paragraph = shadow.querySelector('.comment[data-post-id="2"] .comment-content p')!;
+      Object.assign(shadow, {
+        getSelection: () => ({
+          isCollapsed: false,
+          anchorNode: paragraph.firstChild,
+          toString: () => 'Second',
+        }),
+      });
+
+      (shadow.querySelector('.quote-btn[data-post-id="2"]') as HTMLButtonElement).click();
+
+      const textarea = shadow.querySelector('.comment[data-post-id="2"] .reply-composer textarea') as HTMLTextAreaElement;
+      expect(textarea.value).toContain('[quote="bob, post:2, topic:42"]\nSecond\n[/quote]');
+    });
+  });
+
+  describe('edit and delete', () => {
+    const ownResponse = {
+      title: 'Test Topic',
+      post_stream: {
+        posts: [
+          makePost(1, { yours: true, raw: 'Helo world', cooked: '<p>Helo world</p>' }),
+          makePost(2),
+        ],
+        stream: [1, 2],
+      },
+    };
+
+    beforeEach(() => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+      mockGetTopic.mockResolvedValue(ownResponse);
+      mockUpdatePost.mockResolvedValue(undefined);
+      mockDeletePost.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('only shows edit and delete on your own posts', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      expect(shadow.querySelector('.comment[data-post-id="1"] .edit-btn')).not.toBeNull();
+      expect(shadow.querySelector('.comment[data-post-id="1"] .delete-btn')).not.toBeNull();
+      expect(shadow.querySelector('.comment[data-post-id="2"] .edit-btn')).toBeNull();
+      expect(shadow.querySelector('.comment[data-post-id="2"] .delete-btn')).toBeNull();
+    });
+
+    it('edits a post in place with its raw markdown', async () => {
+      mockGetPost.mockResolvedValue({ ...makePost(1), cooked: '<p>Hello world</p>' });
+
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const comment = shadow.querySelector('.comment[data-post-id="1"]')!;
+      const otherComment = shadow.querySelector('.comment[data-post-id="2"]');
+
+      (comment.querySelector('.edit-btn') as HTMLButtonElement).click();
+
+      const textarea = await vi.waitFor(() => {
+        const el = comment.querySelector('.edit-text') as HTMLTextAreaElement;
+        expect(el.value).toBe('Helo world');
+        return el;
+      });
+      textarea.value = 'Hello world';
+      (comment.querySelector('.edit-save') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        expect(comment.querySelector('.edit-composer')).toBeNull();
+      });
+
+      expect(mockUpdatePost).toHaveBeenCalledWith(1, 'Hello world');
+      expect(comment.querySelector('.comment-content')?.innerHTML).toContain('Hello world');
+      expect(shadow.querySelector('.comment[data-post-id="2"]')).toBe(otherComment);
+    });
+
+    it('does not delete without confirmation', async () => {
+      vi.spyOn(window, 'confirm').mockReturnValue(false);
+
+      const el = await mountElement();
+      (el.shadowRoot!.querySelector('.delete-btn') as HTMLButtonElement).click();
+
+      expect(mockDeletePost).not.toHaveBeenCalled();
+    });
+
+    it('shows the deleted state after confirming', async () => {
+      vi.spyOn(window, 'confirm').mockReturnValue(true);
+      mockGetPost.mockResolvedValue({ ...makePost(1), cooked: '<p>(post deleted by author)</p>' });
+
+      const el = await mountElement();
+      const comment = el.shadowRoot!.querySelector('.comment[data-post-id="1"]')!;
+
+      (comment.querySelector('.delete-btn') as HTMLButtonElement).click();
+
+      // The deleted look is applied straight away; the buttons go once the forum confirms
+      await vi.waitFor(() => {
+        expect(comment.querySelector('.edit-btn')).toBeNull();
+      });
+
+      expect(comment.classList.contains('comment-deleted')).toBe(true);
+      expect(mockDeletePost).toHaveBeenCalledWith(1);
+      expect(comment.querySelector('.comment-content')?.textContent).toContain('(post deleted by author)');
+      expect(comment.querySelector('.edit-btn')).toBeNull();
+      expect(comment.querySelector('.delete-btn')).toBeNull();
+    });
+  });
+
+  describe('composer preview', () => {
+    beforeEach(() => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('renders the draft locally when switching to preview', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      const textarea = shadow.getElementById('comment-text') as HTMLTextAreaElement;
+      textarea.value = '**bold**';
+
+      (shadow.querySelector('.composer-tab[data-tab="preview"]') as HTMLButtonElement).click();
+
+      const preview = shadow.querySelector('.composer-preview') as HTMLElement;
+      expect(preview.hidden).toBe(false);
+      expect(textarea.hidden).toBe(true);
+      expect(preview.innerHTML).toBe('<p><strong>bold</strong></p>');
+
+      (shadow.querySelector('.composer-tab[data-tab="write"]') as HTMLButtonElement).click();
+      expect(preview.hidden).toBe(true);
+      expect(textarea.hidden).toBe(false);
+    });
+
+    it('uses the server-cooked HTML when cook-url is set', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ cooked: '<p>cooked by server</p>' }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const el = await mountElement({ 'cook-url': '/cook.json' });
+      const shadow = el.shadowRoot!;
+
+      (shadow.getElementById('comment-text') as HTMLTextAreaElement).value = 'draft';
+      (shadow.querySelector('.composer-tab[data-tab="preview"]') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        expect(shadow.querySelector('.composer-preview')?.innerHTML).toBe('<p>cooked by server</p>');
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://forum.example.com/cook.json');
+      expect(init.headers['User-Api-Key']).toBe('test-api-key');
+      expect(JSON.parse(init.body)).toEqual({ raw: 'draft' });
+    });
+
+    it('applies toolbar formatting to the selection', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      const textarea = shadow.getElementById('comment-text') as HTMLTextAreaElement;
+      textarea.value = 'hello';
+      textarea.setSelectionRange(0, 5);
+
+      (shadow.querySelector('.toolbar-btn[data-format="bold"]') as HTMLButtonElement).click();
+      expect(textarea.value).toBe('**hello**');
+    });
+  });
+
+  describe('embed-url mode', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('loads the topic found for the page URL', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({ id: 42 }) });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const el = await mountElement({ 'embed-url': 'https://blog.example.com/posts/hello', 'external-id': 'post-hello' });
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://forum.example.com/t/external_id/post-hello.json');
+      expect(mockGetTopic).toHaveBeenCalledWith(42);
+      expect(el.shadowRoot!.querySelectorAll('.comment').length).toBe(2);
+    });
+
+    it('shows a no discussion state when no topic exists', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, json: async () => ({}) }));
+
+      const el = await mountElement({ 'embed-url': '' });
+      const shadow = el.shadowRoot!;
+
+      expect(shadow.querySelector('.empty-state')?.textContent).toContain('No discussion yet');
+      expect(shadow.getElementById('login-btn')).not.toBeNull();
+      expect(shadow.getElementById('start-discussion')).toBeNull();
+      expect(mockGetTopic).not.toHaveBeenCalled();
+    });
+
+    it('starts the discussion from the first comment', async () => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+      document.title = 'My article title';
+
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({}) })
+        .mockResolvedValueOnce({ ok: false, status: 404, json: async () => ({}) })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ id: 500, topic_id: 42 }) });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const el = await mountElement({
+        'embed-url': 'https://blog.example.com/posts/hello',
+        'external-id': 'post-hello',
+        'category-id': '5',
+        tags: 'blog, comments',
+      });
+      const shadow = el.shadowRoot!;
+
+      (shadow.getElementById('comment-text') as HTMLTextAreaElement).value = 'First!';
+      (shadow.getElementById('start-discussion') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        expect(shadow.querySelectorAll('.comment').length).toBe(2);
+      });
+
+      expect(JSON.parse(fetchMock.mock.calls[2][1].body)).toEqual({
+        title: 'My article title',
+        raw: 'https://blog.example.com/posts/hello',
+        external_id: 'post-hello',
+        category: 5,
+        tags: ['blog', 'comments'],
+      });
+      expect(mockCreatePost).toHaveBeenCalledWith(42, 'First!');
+      expect(mockGetTopic).toHaveBeenCalledWith(42);
+
+      document.title = '';
+    });
+  });
+
+  describe('live updates', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('shows a banner for new comments and inserts them on click', async () => {
+      vi.useFakeTimers();
+      mockGetTopic.mockResolvedValue({
+        title: 'Live Topic',
+        post_stream: { posts: [makePost(1), makePost(2)], stream: [1, 2] },
+      });
+
+      const el = await mountElement({ live: 'poll' });
+      const shadow = el.shadowRoot!;
+
+      mockGetTopic.mockResolvedValue({
+        title: 'Live Topic',
+        post_stream: { posts: [makePost(1), makePost(2)], stream: [1, 2, 3, 4] },
+      });
+      mockGetTopicPosts.mockResolvedValue({
+        post_stream: { posts: [makePost(3), makePost(4)] },
+      });
+
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      const banner = shadow.getElementById('new-posts-btn') as HTMLButtonElement;
+      expect(banner.textContent).toBe('2 new comments');
+      expect(shadow.querySelectorAll('.comment').length).toBe(2);
+
+      banner.click();
+
+      await vi.waitFor(() => {
+        expect(shadow.querySelectorAll('.comment').length).toBe(4);
+      });
+      expect(mockGetTopicPosts).toHaveBeenCalledWith(42, [3, 4]);
+      expect(shadow.getElementById('new-posts-btn')).toBeNull();
+    });
+
+    it('does not poll without the live attribute', async () => {
+      vi.useFakeTimers();
+
+      await mountElement();
+      const calls = mockGetTopic.mock.calls.length;
+
+      await vi.advanceTimersByTimeAsync(120_000);
+      expect(mockGetTopic.mock.calls.length).toBe(calls);
+    });
+  });
+
+  describe('public API and events', () => {
+    beforeEach(() => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+    });
+
+    it('dispatches dc:loaded with the topic details', async () => {
+      const el = createElement();
+      const loaded = vi.fn();
+      el.addEventListener('dc:loaded', (e) => loaded(e.detail));
+      document.body.appendChild(el);
+
+      await vi.waitFor(() => {
+        expect(loaded).toHaveBeenCalledWith({ topicId: 42, title: 'Test Topic', postsCount: 2 });
+      });
+    });
+
+    it('posts through post() and dispatches dc:posted', async () => {
+      mockCreatePost.mockResolvedValue({ ...makePost(99), post_number: 3 });
+
+      const el = await mountElement();
+      const posted = vi.fn();
+      document.body.addEventListener('dc:posted', (e) => posted((e as CustomEvent).detail));
+
+      await el.post('From the host page', 2);
+
+      expect(mockCreatePost).toHaveBeenCalledWith(42, 'From the host page', 2);
+      expect(posted).toHaveBeenCalledWith({ topicId: 42, postId: 99, postNumber: 3, replyToPostNumber: 2 });
+      expect(el.shadowRoot!.querySelector('.comment[data-post-id="99"]')).not.toBeNull();
+    });
+
+    it('rejects post() when logged out', async () => {
+      localStorage.clear();
+
+      const el = await mountElement();
+      await expect(el.post('hi')).rejects.toThrow('Not authenticated');
+    });
+
+    it('dispatches dc:liked after toggling a like', async () => {
+      const el = await mountElement();
+      const liked = vi.fn();
+      el.addEventListener('dc:liked', (e) => liked(e.detail));
+
+      (el.shadowRoot!.querySelector('.like-btn[data-post-id="2"]') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        expect(liked).toHaveBeenCalledWith({ postId: 2, liked: false, likeCount: 0 });
+      });
+    });
+
+    it('dispatches dc:auth-changed on logout', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200 }));
+      const el = await mountElement();
+      const authChanged = vi.fn();
+      el.addEventListener('dc:auth-changed', (e) => authChanged(e.detail));
+
+      const loggedOut = el.logout();
+
+      expect(authChanged).toHaveBeenCalledWith({ loggedIn: false });
+      expect(localStorage.getItem('discourse-comments-api-key-https://forum.example.com')).toBeNull();
+      await loggedOut;
+      vi.unstubAllGlobals();
+    });
+
+    it('revokes the key on the forum when logging out', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      vi.stubGlobal('fetch', fetchMock);
+      const el = await mountElement();
+
+      await el.logout();
+
+      expect(fetchMock).toHaveBeenCalledWith('https://forum.example.com/user-api-key/revoke', {
+        method: 'POST',
+        headers: { 'User-Api-Key': 'test-api-key' },
+      });
+      expect(el.shadowRoot!.getElementById('login-btn')).not.toBeNull();
+      vi.unstubAllGlobals();
+    });
+
+    it('dispatches dc:error when loading fails', async () => {
+      mockGetTopic.mockRejectedValue(new Error('Network error'));
+
+      const el = createElement();
+      const errored = vi.fn();
+      el.addEventListener('dc:error', (e) => errored(e.detail.message));
+      document.body.appendChild(el);
+
+      await vi.waitFor(() => {
+        expect(errored).toHaveBeenCalledWith('Network error');
+      });
+    });
+
+    it('refresh() reloads the topic', async () => {
+      const el = await mountElement();
+      const calls = mockGetTopic.mock.calls.length;
+
+      await el.refresh();
+      expect(mockGetTopic.mock.calls.length).toBe(calls + 1);
+    });
+
+    it('scrollToPost() loads pages until the post is found', async () => {
+      mockGetTopic.mockResolvedValue({
+        title: 'Paged Topic',
+        post_stream: { posts: [makePost(1)], stream: [1, 2, 3] },
+      });
+      mockGetTopicPosts.mockResolvedValue({
+        post_stream: { posts: [makePost(2), makePost(3)] },
+      });
+
+      const el = await mountElement();
+
+      expect(await el.scrollToPost(3)).toBe(true);
+      expect(el.shadowRoot!.querySelector('.comment[data-post-number="3"]')?.classList.contains('highlighted')).toBe(true);
+      expect(await el.scrollToPost(10)).toBe(false);
+    });
+  });
+
+  describe('theming', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('styles through --dc-* custom properties with a dark theme', async () => {
+      const el = await mountElement({ theme: 'dark' });
+      const css = el.shadowRoot!.querySelector('style')!.textContent!;
+
+      expect(css).toContain('--dc-primary-color: #0088cc;');
+      expect(css).toContain('background: var(--dc-primary-color);');
+      expect(css).toContain(':host([theme="dark"])');
+      expect(css).toContain(':host([theme="auto"])');
+      expect(css).not.toMatch(/:\s*#(0088cc|fa6c8d|f8f9fa);\s*}/);
+    });
+
+    it('exposes parts for the header, comments, buttons and composer', async () => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      expect(shadow.querySelector('[part="header"]')).not.toBeNull();
+      expect(shadow.querySelectorAll('[part="comment"]').length).toBe(2);
+      expect(shadow.querySelector('[part="comment-author"]')!.textContent).toBe('alice');
+      expect(shadow.querySelector('[part="comment-content"]')).not.toBeNull();
+      expect(shadow.querySelector('[part="composer"] [part="composer-input"]')).not.toBeNull();
+      expect(shadow.getElementById('submit-comment')!.getAttribute('part')).toBe('button button-primary');
+      expect(shadow.querySelector('[part="like-button"]')).not.toBeNull();
+    });
+
+    it('applies the forum color scheme with forum-colors', async () => {
+      vi.stubGlobal('fetch', vi.fn(async (url: string) => ({
+        ok: true,
+        status: 200,
+        text: async () => url.endsWith('/')
+          ? '<link href="/stylesheets/color_definitions_base_1.css" rel="stylesheet">'
+          : ':root{--primary: #101010;--tertiary: #123456}',
+      })));
+
+      const el = await mountElement({ 'discourse-url': 'https://themed.example.com', 'forum-colors': '' });
+      const style = el.shadowRoot!.querySelector('style.forum-colors')!;
+
+      await vi.waitFor(() => {
+        expect(style.textContent).toContain('--dc-primary-color: #123456;');
+      });
+      expect(style.textContent).toContain('--dc-text-color: #101010;');
+    });
+
+    it('keeps the built-in colors without forum-colors', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      const el = await mountElement();
+
+      expect(el.shadowRoot!.querySelector('style.forum-colors')!.textContent).toBe('');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('locale', () => {
+    afterEach(() => {
+      document.documentElement.lang = '';
+    });
+
+    it('renders the UI in the locale attribute\'s language', async () => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+      const el = await mountElement({ locale: 'de' });
+      const shadow = el.shadowRoot!;
+
+      expect(shadow.getElementById('submit-comment')!.textContent).toBe('Kommentar senden');
+      expect(shadow.getElementById('logout-btn')!.textContent).toBe('Abmelden');
+      expect(shadow.querySelector('.reply-btn')!.textContent).toBe('Antworten');
+      expect(shadow.querySelector('.comment-date')!.textContent).toBe('gerade eben');
+    });
+
+    it('falls back to the page language', async () => {
+      document.documentElement.lang = 'ja';
+      const el = await mountElement();
+
+      expect(el.shadowRoot!.getElementById('login-btn')!.textContent).toBe('ログインしてコメント');
+    });
+
+    it('uses English for unusable locale tags', async () => {
+      const el = await mountElement({ locale: 'not a locale!' });
+
+      expect(el.shadowRoot!.getElementById('login-btn')!.textContent).toBe('Login to Comment');
+    });
+
+    it('translates the composer toolbar and its placeholders', async () => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+      const el = await mountElement({ locale: 'de' });
+      const shadow = el.shadowRoot!;
+      const bold = shadow.querySelector('.toolbar-btn[data-format="bold"]') as HTMLButtonElement;
+
+      expect(bold.textContent).toBe('F');
+      bold.click();
+      expect((shadow.getElementById('comment-text') as HTMLTextAreaElement).value).toBe('**fetter Text**');
+    });
+
+    it('re-renders when the locale changes', async () => {
+      const el = await mountElement();
+      el.setAttribute('locale', 'de');
+
+      await vi.waitFor(() => {
+        expect(el.shadowRoot!.getElementById('login-btn')?.textContent).toBe('Zum Kommentieren anmelden');
+      });
+    });
+  });
+
+  describe('login callback', () => {
+    const apiKeyStorage = 'discourse-comments-api-key-https://forum.example.com';
+    let keys: { publicKey: string; privateKey: string };
+
+    async function encryptPayload(data: unknown): Promise<string> {
+      const der = Uint8Array.from(
+        atob(keys.publicKey.replace(/-----[A-Z ]+-----/g, '').replace(/\s/g, '')),
+        c => c.charCodeAt(0)
+      );
+      const publicKey = await window.crypto.subtle.importKey(
+        'spki', der, { name: 'RSA-OAEP', hash: 'SHA-1' }, false, ['encrypt']
+      );
+      const encrypted = await window.crypto.subtle.encrypt(
+        { name: 'RSA-OAEP' }, publicKey, new TextEncoder().encode(JSON.stringify(data))
+      );
+      return btoa(String.fromCharCode(...new Uint8Array(encrypted)));
+    }
+
+    function returnFromForum(payload: string) {
+      window.history.replaceState({}, '', `/post?ref=1&payload=${encodeURIComponent(payload)}`);
+    }
+
+    beforeEach(async () => {
+      const { generateKeyPair, saveLoginState } = await import('./auth.js');
+      keys ??= await generateKeyPair();
+      saveLoginState('https://forum.example.com', '0', { privateKey: keys.privateKey, nonce: 'expected-nonce' });
+    });
+
+    afterEach(() => {
+      window.history.replaceState({}, '', '/');
+    });
+
+    it('stores the key from a valid payload and cleans up the URL', async () => {
+      returnFromForum(await encryptPayload({ key: 'fresh-key', nonce: 'expected-nonce' }));
+
+      const el = await mountElement();
+
+      expect(localStorage.getItem(apiKeyStorage)).toBe('fresh-key');
+      expect(window.location.search).toBe('?ref=1');
+      expect(el.shadowRoot!.getElementById('logout-btn')).not.toBeNull();
+    });
+
+    it('ignores a replayed payload', async () => {
+      const payload = await encryptPayload({ key: 'fresh-key', nonce: 'expected-nonce' });
+      returnFromForum(payload);
+      await mountElement();
+      localStorage.removeItem(apiKeyStorage);
+      document.body.innerHTML = '';
+
+      returnFromForum(payload);
+      const el = await mountElement();
+
+      expect(localStorage.getItem(apiKeyStorage)).toBeNull();
+      expect(el.shadowRoot!.getElementById('login-btn')).not.toBeNull();
+    });
+
+    it('rejects a payload with the wrong nonce', async () => {
+      returnFromForum(await encryptPayload({ key: 'stolen-key', nonce: 'attacker-nonce' }));
+      const el = createElement();
+      const errored = vi.fn();
+      el.addEventListener('dc:error', (e) => errored(e.detail.message));
+      document.body.appendChild(el);
+
+      await vi.waitFor(() => {
+        expect(errored).toHaveBeenCalledWith('Authentication failed. Please try again.');
+      });
+      expect(localStorage.getItem(apiKeyStorage)).toBeNull();
+      expect(window.location.search).toBe('?ref=1');
+    });
+
+    it('rejects a tampered payload', async () => {
+      const payload = await encryptPayload({ key: 'fresh-key', nonce: 'expected-nonce' });
+      const bytes = Uint8Array.from(atob(payload), c => c.charCodeAt(0));
+      bytes[bytes.length - 1] ^= 0x01;
+      returnFromForum(btoa(String.fromCharCode(...bytes)));
+
+      const el = createElement();
+      const errored = vi.fn();
+      el.addEventListener('dc:error', (e) => errored(e.detail.message));
+      document.body.appendChild(el);
+
+      await vi.waitFor(() => {
+        expect(errored).toHaveBeenCalled();
+      });
+      expect(localStorage.getItem(apiKeyStorage)).toBeNull();
+    });
+
+    it('leaves payloads for other elements alone', async () => {
+      returnFromForum(await encryptPayload({ key: 'fresh-key', nonce: 'expected-nonce' }));
+
+      await mountElement({ id: 'sidebar-comments' });
+
+      expect(localStorage.getItem(apiKeyStorage)).toBeNull();
+      expect(new URLSearchParams(window.location.search).get('payload')).not.toBeNull();
+    });
+  });
+
+  describe('popup login', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    async function encryptFor(authUrl: string, data: Record<string, unknown>): Promise<string> {
+      const params = new URL(authUrl).searchParams;
+      const pem = params.get('public_key')!;
+      const der = Uint8Array.from(
+        atob(pem.replace(/-----[A-Z ]+-----/g, '').replace(/\s/g, '')),
+        c => c.charCodeAt(0)
+      );
+      const publicKey = await window.crypto.subtle.importKey(
+        'spki', der, { name: 'RSA-OAEP', hash: 'SHA-1' }, false, ['encrypt']
+      );
+      const encrypted = await window.crypto.subtle.encrypt(
+        { name: 'RSA-OAEP' },
+        publicKey,
+        new TextEncoder().encode(JSON.stringify({ nonce: params.get('nonce'), ...data }))
+      );
+      return btoa(String.fromCharCode(...new Uint8Array(encrypted)));
+    }
+
+    it('logs in through a popup without leaving the page', async () => {
+      const popup = { closed: false, close: vi.fn(), location: { href: '' } };
+      const open = vi.fn(() => popup);
+      vi.stubGlobal('open', open);
+
+      const el = await mountElement({ 'login-mode': 'popup', 'login-callback-url': '/login-callback.html' });
+      const loggedIn = el.login();
+
+      await vi.waitFor(() => {
+        expect(popup.location.href).toContain('/user-api-key/new');
+      }, { timeout: 5000 });
+      const authUrl = new URL(popup.location.href);
+      expect(authUrl.searchParams.get('auth_redirect')).toBe(`${window.location.origin}/login-callback.html`);
+      expect(localStorage.length).toBe(0);
+
+      window.dispatchEvent(new MessageEvent('message', {
+        data: { type: 'discourse-comments:login', payload: await encryptFor(popup.location.href, { key: 'popup-key' }) },
+        origin: window.location.origin,
+        source: popup as unknown as Window,
+      }));
+      await loggedIn;
+
+      expect(localStorage.getItem('discourse-comments-api-key-https://forum.example.com')).toBe('popup-key');
+      expect(popup.close).toHaveBeenCalled();
+      await vi.waitFor(() => {
+        expect(el.shadowRoot!.getElementById('logout-btn')).not.toBeNull();
+      });
+    });
+
+    it('rejects a payload posted from another origin', async () => {
+      const popup = { closed: false, close: vi.fn(), location: { href: '' } };
+      vi.stubGlobal('open', vi.fn(() => popup));
+
+      const el = await mountElement({ 'login-mode': 'popup', 'login-callback-url': '/login-callback.html' });
+      const loggedIn = el.login();
+      await vi.waitFor(() => {
+        expect(popup.location.href).toContain('/user-api-key/new');
+      }, { timeout: 5000 });
+
+      window.dispatchEvent(new MessageEvent('message', {
+        data: { type: 'discourse-comments:login', payload: await encryptFor(popup.location.href, { key: 'evil-key' }) },
+        origin: 'https://evil.example.com',
+        source: popup as unknown as Window,
+      }));
+      el.remove();
+      await loggedIn;
+
+      expect(localStorage.getItem('discourse-comments-api-key-https://forum.example.com')).toBeNull();
+    });
+
+    it('logs in when the forum cuts the popup off from the page', async () => {
+      // Cross-Origin-Opener-Policy leaves the opener with a handle that reads as closed
+      const popup = { closed: true, close: vi.fn(), location: { href: '' } };
+      vi.stubGlobal('open', vi.fn(() => popup));
+
+      const el = await mountElement({ 'login-mode': 'popup', 'login-callback-url': '/login-callback.html' });
+      const loggedIn = el.login();
+      await vi.waitFor(() => {
+        expect(popup.location.href).toContain('/user-api-key/new');
+      }, { timeout: 5000 });
+
+      const channel = new BroadcastChannel('discourse-comments:login');
+      channel.postMessage({ type: 'discourse-comments:login', payload: await encryptFor(popup.location.href, { key: 'broadcast-key' }) });
+      channel.close();
+      await loggedIn;
+
+      expect(localStorage.getItem('discourse-comments-api-key-https://forum.example.com')).toBe('broadcast-key');
+    });
+
+    it('says so when the popup login never finishes', async () => {
+      const popup = { closed: false, close: vi.fn(), location: { href: '' } };
+      vi.stubGlobal('open', vi.fn(() => popup));
+      const el = await mountElement({ 'login-mode': 'popup', 'login-callback-url': '/login-callback.html' });
+
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      const loggedIn = el.login();
+      await vi.waitFor(() => {
+        expect(popup.location.href).toContain('/user-api-key/new');
+      }, { timeout: 5000 });
+      await vi.advanceTimersByTimeAsync(10 * 60_000);
+      await loggedIn;
+      vi.useRealTimers();
+
+      expect(el.shadowRoot!.querySelector('.error')!.textContent).toContain('Login did not finish in time.');
+    });
+
+    it('falls back to the redirect flow when popups are blocked', async () => {
+      vi.stubGlobal('open', vi.fn(() => null));
+
+      const el = await mountElement({ 'login-mode': 'popup', 'login-callback-url': '/login-callback.html' });
+      await el.login();
+
+      // The redirect flow parks its login state in localStorage
+      expect(localStorage.getItem('discourse-comments-login:https://forum.example.com:0')).not.toBeNull();
+    });
+  });
+
+  describe('drafts', () => {
+    const draftKey = 'discourse-comments-draft:https://forum.example.com:42:topic';
+
+    beforeEach(() => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    function type(textarea: HTMLTextAreaElement, value: string) {
+      textarea.value = value;
+      textarea.dispatchEvent(new Event('input'));
+    }
+
+    it('restores an unsent comment after a reload', async () => {
+      const first = await mountElement();
+      type(first.shadowRoot!.getElementById('comment-text') as HTMLTextAreaElement, 'Half-written thought');
+      document.body.innerHTML = '';
+
+      const el = await mountElement();
+
+      expect((el.shadowRoot!.getElementById('comment-text') as HTMLTextAreaElement).value).toBe('Half-written thought');
+    });
+
+    it('keeps reply drafts apart from the top-level draft', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      (shadow.querySelector('.reply-btn[data-post-id="2"]') as HTMLButtonElement).click();
+      type(shadow.querySelector('.reply-text') as HTMLTextAreaElement, 'Reply to bob');
+      (shadow.querySelector('.reply-cancel') as HTMLButtonElement).click();
+      (shadow.querySelector('.reply-btn[data-post-id="1"]') as HTMLButtonElement).click();
+
+      expect((shadow.querySelector('.reply-text') as HTMLTextAreaElement).value).toBe('');
+      expect((shadow.getElementById('comment-text') as HTMLTextAreaElement).value).toBe('');
+    });
+
+    it('restores a reply draft when the reply composer reopens', async () => {
+      const first = await mountElement();
+      (first.shadowRoot!.querySelector('.reply-btn[data-post-id="2"]') as HTMLButtonElement).click();
+      type(first.shadowRoot!.querySelector('.reply-text') as HTMLTextAreaElement, 'Reply to bob');
+      document.body.innerHTML = '';
+
+      const el = await mountElement();
+      (el.shadowRoot!.querySelector('.reply-btn[data-post-id="2"]') as HTMLButtonElement).click();
+
+      expect((el.shadowRoot!.querySelector('.reply-text') as HTMLTextAreaElement).value).toBe('Reply to bob');
+    });
+
+    it('clears the draft once the comment is posted', async () => {
+      mockCreatePost.mockResolvedValue({ id: 99, post_number: 3, topic_id: 42, username: 'me', created_at: new Date().toISOString(), cooked: '<p>Done</p>' });
+      const el = await mountElement();
+      const textarea = el.shadowRoot!.getElementById('comment-text') as HTMLTextAreaElement;
+      type(textarea, 'Finished thought');
+      expect(localStorage.getItem(draftKey)).not.toBeNull();
+
+      (el.shadowRoot!.getElementById('submit-comment') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => {
+        expect(mockCreatePost).toHaveBeenCalled();
+        expect(localStorage.getItem(draftKey)).toBeNull();
+      });
+    });
+
+    it('syncs top-level drafts to the forum with sync-drafts', async () => {
+      const fetchMock = vi.fn(async (url: string) => ({
+        ok: true,
+        status: 200,
+        json: async () => url.endsWith('/drafts/topic_42.json')
+          ? { draft: JSON.stringify({ reply: 'Started on the forum' }), draft_sequence: 7 }
+          : { success: 'OK', draft_sequence: 8 },
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const el = await mountElement({ 'sync-drafts': '' });
+      const textarea = el.shadowRoot!.getElementById('comment-text') as HTMLTextAreaElement;
+      await vi.waitFor(() => {
+        expect(textarea.value).toBe('Started on the forum');
+      });
+
+      vi.useFakeTimers();
+      type(textarea, 'Started on the forum, finished here');
+      await vi.advanceTimersByTimeAsync(2000);
+
+      const saveCall = fetchMock.mock.calls.find(([url]) => url === 'https://forum.example.com/drafts.json') as unknown[];
+      const body = new URLSearchParams((saveCall[1] as RequestInit).body as string);
+      expect(body.get('sequence')).toBe('7');
+      expect(JSON.parse(body.get('data')!).reply).toBe('Started on the forum, finished here');
+    });
+
+    it('does not contact the drafts API without sync-drafts', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+
+      const el = await mountElement();
+      type(el.shadowRoot!.getElementById('comment-text') as HTMLTextAreaElement, 'Local only');
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(localStorage.getItem(draftKey)).not.toBeNull();
+    });
+  });
+
+  describe('reactions', () => {
+    const reactionsTopic = {
+      title: 'Test Topic',
+      valid_reactions: ['heart', '+1', 'tada'],
+      post_stream: {
+        posts: [
+          makePost(1, {
+            yours: true,
+            reactions: [{ id: 'heart', type: 'emoji', count: 2 }],
+            current_user_reaction: null,
+          }),
+          makePost(2, {
+            reactions: [{ id: 'heart', type: 'emoji', count: 1 }, { id: '+1', type: 'emoji', count: 3 }],
+            current_user_reaction: { id: '+1', type: 'emoji', can_undo: true },
+          }),
+        ],
+      },
+    };
+
+    beforeEach(() => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+      mockGetTopic.mockResolvedValue(reactionsTopic);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('keeps the heart like when the attribute is off', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      expect(shadow.querySelector('.reactions')).toBeNull();
+      expect(shadow.querySelector('.like-btn[data-post-id="2"]')).not.toBeNull();
+    });
+
+    it('falls back to the heart when the forum has no reactions plugin', async () => {
+      mockGetTopic.mockResolvedValue(sampleTopicResponse);
+      const el = await mountElement({ reactions: '' });
+      const shadow = el.shadowRoot!;
+
+      expect(shadow.querySelector('.reactions')).toBeNull();
+      expect(shadow.querySelector('.like-btn[data-post-id="2"]')).not.toBeNull();
+    });
+
+    it('renders reaction counts and marks the reader\'s reaction', async () => {
+      const el = await mountElement({ reactions: '' });
+      const shadow = el.shadowRoot!;
+
+      const bar = shadow.querySelector('.comment[data-post-id="2"] .reactions')!;
+      const buttons = bar.querySelectorAll<HTMLButtonElement>('.reaction-btn');
+      expect(Array.from(buttons, btn => btn.dataset.reaction)).toEqual(['heart', '+1']);
+      expect(buttons[1].classList.contains('reacted')).toBe(true);
+      expect(buttons[1].getAttribute('aria-pressed')).toBe('true');
+      expect(buttons[1].querySelector('.reaction-count')!.textContent).toBe('3');
+      expect(buttons[1].querySelector('img')!.getAttribute('src'))
+        .toBe('https://forum.example.com/images/emoji/twitter/%2B1.png');
+      expect(shadow.querySelector('.like-btn')).toBeNull();
+    });
+
+    it('shows counts on your own posts without letting you react', async () => {
+      const el = await mountElement({ reactions: '' });
+      const bar = el.shadowRoot!.querySelector('.comment[data-post-id="1"] .reactions')!;
+
+      expect((bar.querySelector('.reaction-btn') as HTMLButtonElement).disabled).toBe(true);
+      expect(bar.querySelector('.reaction-picker-btn')).toBeNull();
+    });
+
+    it('offers the forum\'s enabled reactions in the picker', async () => {
+      const el = await mountElement({ reactions: '' });
+      const bar = el.shadowRoot!.querySelector('.comment[data-post-id="2"] .reactions')!;
+      const picker = bar.querySelector<HTMLElement>('.reaction-picker')!;
+
+      expect(picker.hidden).toBe(true);
+      (bar.querySelector('.reaction-picker-btn') as HTMLButtonElement).click();
+      expect(picker.hidden).toBe(false);
+      expect(Array.from(picker.querySelectorAll<HTMLElement>('.reaction-option'), btn => btn.dataset.reaction))
+        .toEqual(['heart', '+1', 'tada']);
+    });
+
+    it('falls back to the attribute\'s reactions when the topic has none', async () => {
+      mockGetTopic.mockResolvedValue({ ...reactionsTopic, valid_reactions: undefined });
+      const el = await mountElement({ reactions: 'heart,rocket' });
+      const picker = el.shadowRoot!.querySelector('.comment[data-post-id="2"] .reaction-picker')!;
+
+      expect(Array.from(picker.querySelectorAll<HTMLElement>('.reaction-option'), btn => btn.dataset.reaction))
+        .toEqual(['heart', 'rocket']);
+    });
+
+    it('toggles a reaction and re-renders the counts', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          id: 2,
+          reactions: [{ id: 'heart', type: 'emoji', count: 1 }, { id: '+1', type: 'emoji', count: 2 }, { id: 'tada', type: 'emoji', count: 1 }],
+          current_user_reaction: { id: 'tada', type: 'emoji', can_undo: true },
+        }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      const el = await mountElement({ reactions: '' });
+      const shadow = el.shadowRoot!;
+      const reacted = vi.fn();
+      el.addEventListener('dc:reacted', reacted);
+
+      (shadow.querySelector('.comment[data-post-id="2"] .reaction-option[data-reaction="tada"]') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => expect(reacted).toHaveBeenCalled());
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://forum.example.com/discourse-reactions/posts/2/custom-reactions/tada/toggle.json',
+        { method: 'PUT', headers: { 'User-Api-Key': 'test-api-key' } }
+      );
+      const tada = shadow.querySelector('.comment[data-post-id="2"] .reaction-btn[data-reaction="tada"]')!;
+      expect(tada.classList.contains('reacted')).toBe(true);
+      expect(shadow.querySelector('.comment[data-post-id="2"] .reaction-btn[data-reaction="+1"]')!.classList.contains('reacted')).toBe(false);
+      expect(reacted.mock.calls[0][0].detail).toMatchObject({ postId: 2, reaction: 'tada' });
+    });
+
+    it('reports a failed toggle and re-enables the buttons', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 403, json: async () => ({}) }));
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const el = await mountElement({ reactions: '' });
+      const errors = vi.fn();
+      el.addEventListener('dc:error', errors);
+      const btn = el.shadowRoot!.querySelector('.comment[data-post-id="2"] .reaction-btn[data-reaction="heart"]') as HTMLButtonElement;
+
+      btn.click();
+
+      await vi.waitFor(() => expect(errors).toHaveBeenCalled());
+      expect(errors.mock.calls[0][0].detail.message).toBe('Failed to update reaction');
+      expect(btn.disabled).toBe(false);
+      consoleError.mockRestore();
+    });
+
+    it('disables reacting for anonymous readers', async () => {
+      localStorage.clear();
+      const el = await mountElement({ reactions: '' });
+      const bar = el.shadowRoot!.querySelector('.comment[data-post-id="2"] .reactions')!;
+
+      expect((bar.querySelector('.reaction-btn') as HTMLButtonElement).disabled).toBe(true);
+      expect(bar.querySelector('.reaction-btn')!.getAttribute('title')).toBe('Login to react');
+      expect(bar.querySelector('.reaction-picker-btn')).toBeNull();
+    });
+  });
+
+  describe('optimistic writes', () => {
+    let consoleError: ReturnType<typeof vi.spyOn>;
+
+    function apiError(status: number) {
+      return Object.assign(new Error(`API error (${status}): HTTP ${status}`), { name: 'ApiError', status });
+    }
+
+    function deferred<T>() {
+      let resolve!: (value: T) => void;
+      const promise = new Promise<T>(r => { resolve = r; });
+      return { promise, resolve };
+    }
+
+    beforeEach(() => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+      consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      consoleError.mockRestore();
+    });
+
+    it('shows a like before the forum confirms it', async () => {
+      const request = deferred<void>();
+      mockLikePost.mockReturnValue(request.promise);
+      mockGetTopic.mockResolvedValue({ title: 'Test Topic', post_stream: { posts: [makePost(2, { like_count: 1 })] } });
+      const el = await mountElement();
+      const likeBtn = el.shadowRoot!.querySelector('.like-btn[data-post-id="2"]') as HTMLButtonElement;
+
+      likeBtn.click();
+
+      expect(likeBtn.classList.contains('liked')).toBe(true);
+      expect(likeBtn.querySelector('.like-count')!.textContent).toBe('2');
+      request.resolve();
+      await vi.waitFor(() => expect(likeBtn.disabled).toBe(false));
+      expect(likeBtn.dataset.liked).toBe('true');
+    });
+
+    it('rolls a like back with a toast when it fails', async () => {
+      mockLikePost.mockRejectedValue(apiError(403));
+      mockGetTopic.mockResolvedValue({ title: 'Test Topic', post_stream: { posts: [makePost(2, { like_count: 1 })] } });
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const likeBtn = shadow.querySelector('.like-btn[data-post-id="2"]') as HTMLButtonElement;
+
+      likeBtn.click();
+
+      await vi.waitFor(() => expect(shadow.querySelector('.toast')).not.toBeNull());
+      expect(shadow.querySelector('.toast')!.textContent).toBe('Failed to toggle like');
+      expect(likeBtn.classList.contains('liked')).toBe(false);
+      expect(likeBtn.querySelector('.like-count')!.textContent).toBe('1');
+      expect(shadow.querySelectorAll('.comment').length).toBe(1);
+    });
+
+    it('retries a rate-limited like with backoff', async () => {
+      mockLikePost.mockRejectedValueOnce(apiError(429)).mockResolvedValue({});
+      mockGetTopic.mockResolvedValue({ title: 'Test Topic', post_stream: { posts: [makePost(2)] } });
+      const el = await mountElement();
+      const likeBtn = el.shadowRoot!.querySelector('.like-btn[data-post-id="2"]') as HTMLButtonElement;
+      const liked = vi.fn();
+      el.addEventListener('dc:liked', liked);
+
+      vi.useFakeTimers();
+      likeBtn.click();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockLikePost).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockLikePost).toHaveBeenCalledTimes(2);
+      expect(liked).toHaveBeenCalledTimes(1);
+      expect(likeBtn.classList.contains('liked')).toBe(true);
+      expect(el.shadowRoot!.querySelector('.toast')).toBeNull();
+    });
+
+    it('shows a new comment as sending until it is confirmed', async () => {
+      const request = deferred<unknown>();
+      mockCreatePost.mockReturnValue(request.promise);
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const textarea = shadow.getElementById('comment-text') as HTMLTextAreaElement;
+      textarea.value = 'Hello **world**';
+
+      (shadow.getElementById('submit-comment') as HTMLButtonElement).click();
+
+      const pending = shadow.querySelector('.comment-pending')!;
+      expect(pending.textContent).toContain('Sending...');
+      expect(pending.querySelector('.comment-content')!.innerHTML).toContain('<strong>world</strong>');
+      expect(textarea.value).toBe('');
+
+      request.resolve(makePost(99, { cooked: '<p>Hello <strong>world</strong></p>', yours: true }));
+      await vi.waitFor(() => expect(shadow.querySelector('.comment[data-post-id="99"]')).not.toBeNull());
+      expect(shadow.querySelector('.comment-pending')).toBeNull();
+    });
+
+    it('drops the pending comment and hands the text back when posting fails', async () => {
+      mockCreatePost.mockRejectedValue(apiError(422));
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const textarea = shadow.getElementById('comment-text') as HTMLTextAreaElement;
+      textarea.value = 'Hello';
+
+      (shadow.getElementById('submit-comment') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => expect(shadow.querySelector('.toast')).not.toBeNull());
+      expect(shadow.querySelector('.toast')!.textContent).toContain('API error (422)');
+      expect(shadow.querySelector('.comment-pending')).toBeNull();
+      expect(shadow.querySelectorAll('.comment').length).toBe(2);
+      expect(textarea.value).toBe('Hello');
+    });
+
+    it('does not send a comment again after a server error', async () => {
+      mockCreatePost.mockRejectedValue(apiError(502));
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      (shadow.getElementById('comment-text') as HTMLTextAreaElement).value = 'Hello';
+
+      (shadow.getElementById('submit-comment') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => expect(shadow.querySelector('.toast')).not.toBeNull());
+      expect(mockCreatePost).toHaveBeenCalledTimes(1);
+    });
+
+    it('rolls an edit back and reopens the editor when saving fails', async () => {
+      mockUpdatePost.mockRejectedValue(apiError(403));
+      mockGetTopic.mockResolvedValue({
+        title: 'Test Topic',
+        post_stream: { posts: [makePost(1, { yours: true, can_edit: true, raw: 'Original' })] },
+      });
+      const el = await mountElement();
+      const comment = el.shadowRoot!.querySelector('.comment[data-post-id="1"]')!;
+      (comment.querySelector('.edit-btn') as HTMLButtonElement).click();
+      const editor = await vi.waitFor(() => comment.querySelector<HTMLElement>('.edit-composer')!);
+      (editor.querySelector('textarea') as HTMLTextAreaElement).value = 'Changed';
+
+      (editor.querySelector('.edit-save') as HTMLButtonElement).click();
+
+      expect(comment.querySelector('.comment-content')!.textContent).toContain('Changed');
+      expect(editor.hidden).toBe(true);
+      await vi.waitFor(() => expect(editor.hidden).toBe(false));
+      expect(comment.querySelector('.comment-content')!.textContent).toContain('Post 1');
+      expect((editor.querySelector('textarea') as HTMLTextAreaElement).value).toBe('Changed');
+    });
+
+    it('restores a comment when deleting it fails', async () => {
+      vi.spyOn(window, 'confirm').mockReturnValue(true);
+      mockDeletePost.mockRejectedValue(apiError(403));
+      mockGetTopic.mockResolvedValue({
+        title: 'Test Topic',
+        post_stream: { posts: [makePost(1, { yours: true, can_delete: true })] },
+      });
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const comment = shadow.querySelector('.comment[data-post-id="1"]')!;
+
+      (comment.querySelector('.delete-btn') as HTMLButtonElement).click();
+
+      expect(comment.classList.contains('comment-deleted')).toBe(true);
+      await vi.waitFor(() => expect(shadow.querySelector('.toast')).not.toBeNull());
+      expect(shadow.querySelector('.toast')!.textContent).toBe('Failed to delete comment');
+      expect(comment.classList.contains('comment-deleted')).toBe(false);
+      expect(comment.querySelector('.comment-content')!.textContent).toContain('Post 1');
+      expect((comment.querySelector('.delete-btn') as HTMLElement).hidden).toBe(false);
+      vi.mocked(window.confirm).mockRestore();
+    });
+
+    it('shows a reaction before the forum confirms it', async () => {
+      mockGetTopic.mockResolvedValue({
+        title: 'Test Topic',
+        post_stream: { posts: [makePost(2, { reactions: [{ id: 'heart', type: 'emoji', count: 1 }], current_user_reaction: null })] },
+      });
+      vi.stubGlobal('fetch', vi.fn(() => new Promise(() => {})));
+      const el = await mountElement({ reactions: '' });
+      const shadow = el.shadowRoot!;
+
+      (shadow.querySelector('.reaction-btn[data-reaction="heart"]') as HTMLButtonElement).click();
+
+      const heart = shadow.querySelector('.reaction-btn[data-reaction="heart"]') as HTMLButtonElement;
+      expect(heart.classList.contains('reacted')).toBe(true);
+      expect(heart.querySelector('.reaction-count')!.textContent).toBe('2');
+      expect(heart.disabled).toBe(true);
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe('offline outbox', () => {
+    let online = true;
+
+    beforeEach(() => {
+      localStorage.setItem(
+        'discourse-comments-api-key-https://forum.example.com',
+        'test-api-key'
+      );
+      online = true;
+      vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+    });
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      vi.unstubAllGlobals();
+      await clearOutbox('https://forum.example.com');
+    });
+
+    async function writeOffline(el: DiscourseComments, raw: string) {
+      const shadow = el.shadowRoot!;
+      const queued = shadow.querySelectorAll('.comment-queued').length;
+      (shadow.getElementById('comment-text') as HTMLTextAreaElement).value = raw;
+      (shadow.getElementById('submit-comment') as HTMLButtonElement).click();
+      await vi.waitFor(() => expect(shadow.querySelectorAll('.comment-queued').length).toBe(queued + 1));
+    }
+
+    it('queues comments written offline instead of failing', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      online = false;
+
+      await writeOffline(el, 'Written on a train');
+
+      const queued = shadow.querySelector('.comment-queued')!;
+      expect(queued.textContent).toContain('Waiting for a connection...');
+      expect(queued.textContent).toContain('Written on a train');
+      expect(mockCreatePost).not.toHaveBeenCalled();
+      expect((shadow.getElementById('comment-text') as HTMLTextAreaElement).value).toBe('');
+      expect(shadow.querySelector('.toast')).toBeNull();
+      expect((await listQueued('https://forum.example.com', 42)).map(entry => entry.raw)).toEqual(['Written on a train']);
+    });
+
+    it('queues a comment whose connection dropped as possibly sent', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      mockCreatePost.mockRejectedValueOnce(new RequestError('HTTP request failed'));
+
+      (shadow.getElementById('comment-text') as HTMLTextAreaElement).value = 'Lost on the way';
+      (shadow.getElementById('submit-comment') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => expect(shadow.querySelector('.comment-queued')).not.toBeNull());
+      // The outbox looks for it in the topic before sending it again
+      const [entry] = await listQueued('https://forum.example.com', 42);
+      expect(entry.raw).toBe('Lost on the way');
+      expect(entry.sentAt).toEqual(expect.any(Number));
+    });
+
+    it('shows queued comments again after a reload', async () => {
+      online = false;
+      const first = await mountElement();
+      await writeOffline(first, 'Still waiting');
+      document.body.innerHTML = '';
+
+      const el = await mountElement();
+
+      await vi.waitFor(() => expect(el.shadowRoot!.querySelector('.comment-queued')).not.toBeNull());
+      expect(el.shadowRoot!.querySelector('.comment-queued')!.textContent).toContain('Still waiting');
+    });
+
+    it('sends the queue in order once the connection is back', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      online = false;
+      await writeOffline(el, 'First');
+      await writeOffline(el, 'Second');
+      expect(shadow.querySelectorAll('.comment-queued').length).toBe(2);
+
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ ...makePost(10), yours: true }) })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ ...makePost(11), yours: true }) });
+      vi.stubGlobal('fetch', fetchMock);
+      const posted = vi.fn();
+      el.addEventListener('dc:posted', posted);
+      online = true;
+      window.dispatchEvent(new Event('online'));
+
+      await vi.waitFor(() => expect(shadow.querySelector('.comment[data-post-id="11"]')).not.toBeNull());
+      expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).raw)).toEqual(['First', 'Second']);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).nonce).toMatch(/^[0-9a-f]{32}$/);
+      expect(fetchMock.mock.calls[0][1].headers['User-Api-Key']).toBe('test-api-key');
+      expect(shadow.querySelector('.comment-queued')).toBeNull();
+      expect(posted.mock.calls.map(([event]) => event.detail.postId)).toEqual([10, 11]);
+      expect(await listQueued('https://forum.example.com')).toEqual([]);
+    });
+
+    it('updates every element showing the queued comment once it is sent', async () => {
+      online = false;
+      const first = await mountElement();
+      await writeOffline(first, 'Seen twice');
+      const second = await mountElement();
+      await vi.waitFor(() => expect(second.shadowRoot!.querySelector('.comment-queued')).not.toBeNull());
+
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({ ...makePost(10), yours: true }) }));
+      online = true;
+      window.dispatchEvent(new Event('online'));
+
+      for (const el of [first, second]) {
+        await vi.waitFor(() => expect(el.shadowRoot!.querySelector('.comment[data-post-id="10"]')).not.toBeNull());
+        expect(el.shadowRoot!.querySelector('.comment-queued')).toBeNull();
+      }
+    });
+
+    it('queues replies written offline', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      online = false;
+
+      (shadow.querySelector('.reply-btn[data-post-id="2"]') as HTMLButtonElement).click();
+      const composer = shadow.querySelector('.reply-composer')!;
+      (composer.querySelector('textarea') as HTMLTextAreaElement).value = 'Offline reply';
+      (composer.querySelector('.reply-submit') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => expect(shadow.querySelector('.comment-queued')).not.toBeNull());
+      expect(shadow.querySelector('.reply-composer')).toBeNull();
+      expect((await listQueued('https://forum.example.com', 42))[0]).toMatchObject({
+        raw: 'Offline reply',
+        replyToPostNumber: 2,
+      });
+    });
+
+    it('forgets queued comments on logout', async () => {
+      const el = await mountElement();
+      online = false;
+      await writeOffline(el, 'Not for the next reader');
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({}) }));
+
+      await el.logout();
+
+      await vi.waitFor(async () => expect(await listQueued('https://forum.example.com')).toEqual([]));
+    });
+  });
+
+  describe('caching', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    async function remount(attrs: Record<string, string> = {}): Promise<DiscourseComments> {
+      document.body.innerHTML = '';
+      return mountElement(attrs);
+    }
+
+    it('shows a recently loaded topic without fetching it again', async () => {
+      await mountElement();
+      const el = await remount();
+
+      expect(mockGetTopic).toHaveBeenCalledTimes(1);
+      expect(el.shadowRoot!.querySelectorAll('.comment').length).toBe(2);
+    });
+
+    it('shows a stale copy while refreshing only the posts that changed', async () => {
+      await mountElement();
+      const later = Date.now() + 120_000;
+      vi.spyOn(Date, 'now').mockReturnValue(later);
+
+      let resolveTopic!: (value: unknown) => void;
+      mockGetTopic.mockReturnValueOnce(new Promise(resolve => { resolveTopic = resolve; }));
+      const el = await remount();
+      const shadow = el.shadowRoot!;
+      const first = shadow.querySelector('.comment[data-post-id="1"]');
+      expect(shadow.querySelector('.comment[data-post-id="2"] .comment-content')!.textContent)
+        .toContain('Second post content');
+
+      const [post1, post2] = sampleTopicResponse.post_stream.posts;
+      resolveTopic({
+        ...sampleTopicResponse,
+        post_stream: { posts: [post1, { ...post2, cooked: '<p>Edited elsewhere</p>' }, makePost(3)] },
+      });
+
+      await vi.waitFor(() => expect(shadow.querySelector('.comment[data-post-id="3"]')).not.toBeNull());
+      expect(shadow.querySelector('.comment[data-post-id="1"]')).toBe(first);
+      expect(shadow.querySelector('.comment[data-post-id="2"] .comment-content')!.textContent)
+        .toContain('Edited elsewhere');
+      expect(mockGetTopic).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the cached copy when the refresh fails', async () => {
+      await mountElement();
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 120_000);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockGetTopic.mockRejectedValueOnce(new Error('Network error'));
+
+      const el = await remount();
+
+      await vi.waitFor(() => expect(console.warn).toHaveBeenCalled());
+      expect(el.shadowRoot!.querySelectorAll('.comment').length).toBe(2);
+      expect(el.shadowRoot!.querySelector('.error')).toBeNull();
+    });
+
+    it('always fetches with cache-ttl="0"', async () => {
+      await mountElement({ 'cache-ttl': '0' });
+      await remount({ 'cache-ttl': '0' });
+
+      expect(mockGetTopic).toHaveBeenCalledTimes(2);
+    });
+
+    it('caches separately for each reader', async () => {
+      await mountElement();
+      localStorage.setItem('discourse-comments-api-key-https://forum.example.com', 'test-api-key');
+      await remount();
+
+      expect(mockGetTopic).toHaveBeenCalledTimes(2);
+    });
+
+    it('refetches after the reader posts', async () => {
+      localStorage.setItem('discourse-comments-api-key-https://forum.example.com', 'test-api-key');
+      const el = await mountElement();
+      mockCreatePost.mockResolvedValue({ ...makePost(99), yours: true });
+      await el.post('New comment');
+
+      let resolveTopic!: (value: unknown) => void;
+      mockGetTopic.mockReturnValueOnce(new Promise(resolve => { resolveTopic = resolve; }));
+      await remount();
+
+      expect(mockGetTopic).toHaveBeenCalledTimes(2);
+      resolveTopic(sampleTopicResponse);
+    });
+
+    it('skips the cache on refresh()', async () => {
+      const el = await mountElement();
+      await el.refresh();
+
+      expect(mockGetTopic).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('lazy loading', () => {
+    class FakeIntersectionObserver {
+      static instances: FakeIntersectionObserver[] = [];
+      observed: Element[] = [];
+      disconnected = false;
+
+      constructor(public callback: IntersectionObserverCallback, public options: IntersectionObserverInit = {}) {
+        FakeIntersectionObserver.instances.push(this);
+      }
+
+      observe(target: Element) {
+        this.observed.push(target);
+      }
+
+      disconnect() {
+        this.disconnected = true;
+      }
+
+      enter() {
+        const entries = this.observed.map(target => ({ target, isIntersecting: true }));
+        this.callback(entries as unknown as IntersectionObserverEntry[], this as unknown as IntersectionObserver);
+      }
+    }
+
+    function activeObserver(): FakeIntersectionObserver | undefined {
+      return FakeIntersectionObserver.instances.find(observer => !observer.disconnected);
+    }
+
+    async function mountLazy(attrs: Record<string, string> = {}): Promise<DiscourseComments> {
+      const el = createElement({ loading: 'lazy', ...attrs });
+      document.body.appendChild(el);
+      await vi.waitFor(() => expect(el.shadowRoot?.querySelector('.comments-placeholder')).not.toBeNull());
+      return el;
+    }
+
+    // Count requests find nothing unless a test says otherwise
+    let countFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      FakeIntersectionObserver.instances = [];
+      vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+      countFetch = vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({}) });
+      vi.stubGlobal('fetch', countFetch);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('waits until the element is near the viewport', async () => {
+      const el = await mountLazy();
+      const shadow = el.shadowRoot!;
+
+      expect(mockGetTopic).not.toHaveBeenCalled();
+      expect(shadow.querySelector('.show-comments-btn')!.textContent).toBe('Show comments');
+      expect(activeObserver()!.observed).toEqual([el]);
+      expect(activeObserver()!.options.rootMargin).toBe('200px');
+
+      activeObserver()!.enter();
+
+      await vi.waitFor(() => expect(shadow.querySelectorAll('.comment').length).toBe(2));
+      expect(shadow.querySelector('.comments-placeholder')).toBeNull();
+      expect(activeObserver()).toBeUndefined();
+    });
+
+    it('passes root-margin to the observer', async () => {
+      await mountLazy({ 'root-margin': '0px 0px 50% 0px' });
+      expect(activeObserver()!.options.rootMargin).toBe('0px 0px 50% 0px');
+
+      document.body.innerHTML = '';
+      await mountLazy({ 'root-margin': 'far away' });
+      expect(activeObserver()!.options.rootMargin).toBe('200px');
+    });
+
+    it('loads when the placeholder is clicked', async () => {
+      const el = await mountLazy();
+
+      (el.shadowRoot!.querySelector('.show-comments-btn') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => expect(el.shadowRoot!.querySelectorAll('.comment').length).toBe(2));
+    });
+
+    it('shows the comment count when a cached copy knows it', async () => {
+      mockGetTopic.mockResolvedValue({ ...sampleTopicResponse, posts_count: 5 });
+      await mountElement();
+      document.body.innerHTML = '';
+      clearCommentCounts();
+
+      const el = await mountLazy();
+
+      expect(el.shadowRoot!.querySelector('.show-comments-btn')!.textContent).toBe('Show 4 comments');
+    });
+
+    it('shows a count fetched by a <discourse-comment-count>', async () => {
+      rememberCommentCount('https://forum.example.com', 42, 7);
+
+      const el = await mountLazy();
+
+      expect(el.shadowRoot!.querySelector('.show-comments-btn')!.textContent).toBe('Show 6 comments');
+    });
+
+    it('fetches the count when nothing on the page knows it', async () => {
+      countFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ topic_list: { topics: [{ id: 42, posts_count: 9 }] } }),
+      });
+
+      const el = await mountLazy();
+
+      await vi.waitFor(() => expect(el.shadowRoot!.querySelector('.show-comments-btn')!.textContent).toBe('Show 8 comments'));
+      expect(countFetch).toHaveBeenCalledTimes(1);
+      expect(countFetch.mock.calls[0][0]).toBe('https://forum.example.com/latest.json?topic_ids=42');
+      expect(mockGetTopic).not.toHaveBeenCalled();
+    });
+
+    it('counts pages found by embed-url', async () => {
+      countFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ counts: { 'https://blog.example.com/post': '3 replies' } }),
+      });
+
+      const el = await mountLazy({ 'embed-url': 'https://blog.example.com/post' });
+
+      await vi.waitFor(() => expect(el.shadowRoot!.querySelector('.show-comments-btn')!.textContent).toBe('Show 3 comments'));
+      expect(new URL(countFetch.mock.calls[0][0]).pathname).toBe('/embed/count');
+    });
+
+    it('does not ask for a count it already has', async () => {
+      rememberCommentCount('https://forum.example.com', 42, 3);
+
+      await mountLazy();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(countFetch).not.toHaveBeenCalled();
+    });
+
+    it('loads straight away with loading="eager"', async () => {
+      await mountElement({ loading: 'eager' });
+
+      expect(mockGetTopic).toHaveBeenCalledTimes(1);
+      expect(FakeIntersectionObserver.instances).toEqual([]);
+    });
+
+    it('loads straight away without IntersectionObserver', async () => {
+      vi.unstubAllGlobals();
+
+      const el = await mountElement({ loading: 'lazy' });
+
+      expect(el.shadowRoot!.querySelectorAll('.comment').length).toBe(2);
+    });
+
+    it('stops waiting when refresh() is called', async () => {
+      const el = await mountLazy();
+
+      await el.refresh();
+
+      expect(el.shadowRoot!.querySelectorAll('.comment').length).toBe(2);
+      expect(activeObserver()).toBeUndefined();
+    });
+
+    it('stops observing when removed from the page', async () => {
+      const el = await mountLazy();
+
+      el.remove();
+
+      expect(activeObserver()).toBeUndefined();
+      expect(mockGetTopic).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sorting and filtering', () => {
+    afterEach(() => {
+      mockGetTopicPosts.mockReset();
+    });
+
+    function renderedIds(el: DiscourseComments): string[] {
+      return Array.from(el.shadowRoot!.querySelectorAll<HTMLElement>('.comment'))
+        .filter(comment => !comment.hidden)
+        .map(comment => comment.dataset.postId!);
+    }
+
+    function choose(el: DiscourseComments, selector: string, value: string) {
+      const select = el.shadowRoot!.querySelector(selector) as HTMLSelectElement;
+      select.value = value;
+      select.dispatchEvent(new Event('change'));
+    }
+
+    const rankedResponse = {
+      title: 'Ranked Topic',
+      post_stream: {
+        posts: [
+          makePost(1, { username: 'author', like_count: 2 }),
+          makePost(2, { like_count: 7 }),
+          makePost(3, { username: 'author', like_count: 0 }),
+          makePost(4, { like_count: 3, moderator: true }),
+        ],
+      },
+    };
+
+    it('keeps stream order by default', async () => {
+      mockGetTopic.mockResolvedValue(rankedResponse);
+      const el = await mountElement();
+
+      expect(renderedIds(el)).toEqual(['1', '2', '3', '4']);
+      expect((el.shadowRoot!.querySelector('.sort-select') as HTMLSelectElement).value).toBe('oldest');
+    });
+
+    it('shows the newest first with sort="newest"', async () => {
+      mockGetTopic.mockResolvedValue(rankedResponse);
+      const el = await mountElement({ sort: 'newest' });
+
+      expect(renderedIds(el)).toEqual(['4', '3', '2', '1']);
+    });
+
+    it('ranks by likes with sort="top"', async () => {
+      mockGetTopic.mockResolvedValue(rankedResponse);
+      const el = await mountElement({ sort: 'top' });
+
+      expect(renderedIds(el)).toEqual(['2', '4', '1', '3']);
+    });
+
+    it('re-sorts from the toolbar without reloading', async () => {
+      mockGetTopic.mockResolvedValue(rankedResponse);
+      const el = await mountElement();
+      const first = el.shadowRoot!.querySelector('.comment[data-post-id="1"]');
+
+      choose(el, '.sort-select', 'newest');
+
+      expect(renderedIds(el)).toEqual(['4', '3', '2', '1']);
+      expect(el.shadowRoot!.querySelector('.comment[data-post-id="1"]')).toBe(first);
+      expect(mockGetTopic).toHaveBeenCalledTimes(1);
+    });
+
+    function pagedTopic(length: number) {
+      mockGetTopic.mockResolvedValue({
+        title: 'Paged Topic',
+        post_stream: { posts: [makePost(1), makePost(2)], stream: Array.from({ length }, (_, i) => i + 1) },
+      });
+      mockGetTopicPosts.mockImplementation(async (_topicId: number, ids: number[]) => ({
+        post_stream: { posts: ids.map(id => makePost(id)) },
+      }));
+    }
+
+    it('pages back from the end of the topic when sorting newest first', async () => {
+      pagedTopic(6);
+
+      const el = await mountElement({ sort: 'newest', 'page-size': '2' });
+
+      await vi.waitFor(() => expect(renderedIds(el)).toEqual(['6', '5']));
+      expect(mockGetTopicPosts).toHaveBeenCalledTimes(1);
+      expect(mockGetTopicPosts).toHaveBeenCalledWith(42, [5, 6]);
+
+      (el.shadowRoot!.getElementById('load-more-btn') as HTMLButtonElement).click();
+
+      // The first page came with the topic, so it shows once paging reaches it
+      await vi.waitFor(() => expect(renderedIds(el)).toEqual(['6', '5', '4', '3', '2', '1']));
+      expect(el.shadowRoot!.getElementById('load-more-btn')).toBeNull();
+    });
+
+    it('puts new comments on top while sorting newest first', async () => {
+      localStorage.setItem('discourse-comments-api-key-https://forum.example.com', 'test-api-key');
+      pagedTopic(6);
+      mockCreatePost.mockResolvedValue({ ...makePost(99), post_number: 7 });
+      const el = await mountElement({ sort: 'newest', 'page-size': '2' });
+      await vi.waitFor(() => expect(renderedIds(el)).toEqual(['6', '5']));
+
+      await el.post('Fresh');
+
+      expect(renderedIds(el)).toEqual(['99', '6', '5']);
+    });
+
+    it('ranks the first few pages for sort="top" and loads the rest on demand', async () => {
+      pagedTopic(10);
+
+      const el = await mountElement({ sort: 'top', 'page-size': '1' });
+
+      await vi.waitFor(() => expect(mockGetTopicPosts).toHaveBeenCalledTimes(5));
+      await vi.waitFor(() => expect(el.shadowRoot!.getElementById('load-more-btn')).not.toBeNull());
+      expect(renderedIds(el)).toHaveLength(7);
+      expect(el.shadowRoot!.getElementById('load-more-btn')!.textContent).toContain('3');
+    });
+
+    it('sorts threads by their top-level post', async () => {
+      mockGetTopic.mockResolvedValue({
+        title: 'Threaded',
+        post_stream: {
+          posts: [makePost(1), makePost(2), makePost(3, { reply_to_post_number: 1 })],
+        },
+      });
+      const el = await mountElement({ layout: 'threaded', sort: 'newest' });
+
+      expect(renderedIds(el)).toEqual(['2', '1', '3']);
+    });
+
+    it('filters to the topic author\'s posts', async () => {
+      mockGetTopic.mockResolvedValue(rankedResponse);
+      const el = await mountElement();
+
+      choose(el, '.filter-select', 'author');
+
+      expect(renderedIds(el)).toEqual(['1', '3']);
+    });
+
+    it('filters to staff posts, saying when none match', async () => {
+      mockGetTopic.mockResolvedValue(rankedResponse);
+      const el = await mountElement();
+      const emptyMessage = () => el.shadowRoot!.querySelector('.filter-empty') as HTMLElement;
+
+      choose(el, '.filter-select', 'staff');
+      expect(renderedIds(el)).toEqual(['4']);
+      expect(emptyMessage().hidden).toBe(true);
+
+      // The filter stays on for the reloaded topic, which has no staff posts
+      mockGetTopic.mockResolvedValue(sampleTopicResponse);
+      await el.refresh();
+      expect(renderedIds(el)).toEqual([]);
+      expect(emptyMessage().hidden).toBe(false);
+    });
+
+    it('leaves out the first post with hide-first-post', async () => {
+      const el = await mountElement({ 'hide-first-post': '' });
+
+      expect(renderedIds(el)).toEqual(['2']);
+    });
+  });
+
+  describe('authors', () => {
+    const authorResponse = {
+      title: 'Authors',
+      post_stream: {
+        posts: [
+          makePost(1, {
+            username: 'writer',
+            name: 'Wendy Writer',
+            avatar_template: '/user_avatar/forum.example.com/writer/{size}/1_2.png',
+          }),
+          makePost(2, {
+            username: 'mod',
+            name: 'Morgan',
+            moderator: true,
+            user_title: 'Community Lead',
+            avatar_template: 'https://cdn.example.com/mod/{size}.png',
+            flair_url: '/uploads/flair.png',
+            flair_name: 'Team',
+            flair_bg_color: 'ff0000',
+          }),
+          makePost(3, { username: 'guest', name: '<b>Guest</b>' }),
+        ],
+      },
+    };
+
+    function authorOf(el: DiscourseComments, postId: number): Element {
+      return el.shadowRoot!.querySelector(`.comment[data-post-id="${postId}"] .comment-user`)!;
+    }
+
+    beforeEach(() => {
+      mockGetTopic.mockResolvedValue(authorResponse);
+    });
+
+    it('shows avatars sized for the screen', async () => {
+      const el = await mountElement();
+      const avatar = authorOf(el, 1).querySelector('.comment-avatar') as HTMLImageElement;
+
+      expect(avatar.getAttribute('src')).toBe('https://forum.example.com/user_avatar/forum.example.com/writer/45/1_2.png');
+      expect(authorOf(el, 3).querySelector('.comment-avatar')).toBeNull();
+    });
+
+    it('shows the username first, then the name', async () => {
+      const el = await mountElement();
+
+      expect(authorOf(el, 1).querySelector('.comment-author')!.textContent).toBe('writer');
+      expect(authorOf(el, 1).querySelector('.comment-username')!.textContent).toBe('Wendy Writer');
+      expect(authorOf(el, 3).querySelector('.comment-username')!.innerHTML).toBe('&lt;b&gt;Guest&lt;/b&gt;');
+    });
+
+    it('keeps the author heading out of phrasing content', async () => {
+      const el = await mountElement();
+
+      const heading = el.shadowRoot!.getElementById('comment-heading-1')!;
+
+      expect(heading.parentElement).toBe(authorOf(el, 1));
+      expect(heading.parentElement!.tagName).toBe('DIV');
+    });
+
+    it('puts the name first with name-order="name"', async () => {
+      const el = await mountElement({ 'name-order': 'name' });
+
+      expect(authorOf(el, 1).querySelector('.comment-author')!.textContent).toBe('Wendy Writer');
+      expect(authorOf(el, 1).querySelector('.comment-username')!.textContent).toBe('writer');
+    });
+
+    it('marks moderators, the topic author, titles and flair', async () => {
+      const el = await mountElement();
+      const badges = (postId: number) =>
+        Array.from(authorOf(el, postId).querySelectorAll('.user-badge')).map(badge => badge.textContent);
+
+      expect(badges(1)).toEqual(['Author']);
+      expect(badges(2)).toEqual(['Moderator']);
+      expect(badges(3)).toEqual([]);
+      expect(authorOf(el, 2).querySelector('.user-title')!.textContent).toBe('Community Lead');
+
+      const flair = authorOf(el, 2).querySelector('.user-flair') as HTMLImageElement;
+      expect(flair.getAttribute('src')).toBe('https://forum.example.com/uploads/flair.png');
+      expect(flair.title).toBe('Team');
+    });
+
+    it('adds user cards that link to the forum profile', async () => {
+      const el = await mountElement({ 'user-cards': '' });
+      const author = authorOf(el, 2);
+
+      expect(author.querySelector('.comment-user-link')!.getAttribute('href')).toBe('https://forum.example.com/u/mod');
+      const card = author.querySelector('.user-card')!;
+      expect(card.querySelector('.user-card-title')!.textContent).toBe('Community Lead');
+      expect(card.querySelector('.user-card-link')!.getAttribute('href')).toBe('https://forum.example.com/u/mod');
+      expect((card.querySelector('.user-card-avatar') as HTMLImageElement).getAttribute('src'))
+        .toBe('https://cdn.example.com/mod/64.png');
+    });
+
+    it('leaves user cards out by default', async () => {
+      const el = await mountElement();
+
+      expect(el.shadowRoot!.querySelector('.user-card')).toBeNull();
+      expect(el.shadowRoot!.querySelector('.comment-user-link')).toBeNull();
+    });
+  });
+
+  describe('accessibility', () => {
+    // Fails with the rule and offending nodes, so a regression says what broke
+    async function expectNoViolations(el: HTMLElement) {
+      const results = await axe.run(el, {
+        // jsdom doesn't lay pages out, so contrast can't be measured
+        rules: { 'color-contrast': { enabled: false } },
+      });
+      const violations = results.violations.map(violation =>
+        `${violation.id}: ${violation.nodes.map(node => node.target.join(' ')).join(', ')}`);
+      expect(violations).toEqual([]);
+    }
+
+    function logIn() {
+      localStorage.setItem('discourse-comments-api-key-https://forum.example.com', 'test-api-key');
+    }
+
+    function press(target: Element, key: string) {
+      target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, composed: true }));
+    }
+
+    it('renders comments as a feed of articles with headings and times', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const list = shadow.querySelector('.comments-list')!;
+      const comment = shadow.querySelector('.comment[data-post-id="2"]')!;
+
+      expect(list.getAttribute('role')).toBe('feed');
+      expect(shadow.getElementById(list.getAttribute('aria-labelledby')!)!.textContent).toBe('Test Topic');
+      expect(comment.tagName).toBe('ARTICLE');
+      expect(shadow.getElementById(comment.getAttribute('aria-labelledby')!)!.tagName).toBe('H3');
+      expect(shadow.getElementById(comment.getAttribute('aria-labelledby')!)!.textContent!.trim()).toBe('bob');
+      const time = comment.querySelector('time.comment-date')!;
+      expect(time.getAttribute('datetime')).toBe(sampleTopicResponse.post_stream.posts[1].created_at);
+    });
+
+    it('labels like buttons and reflects whether they are pressed', async () => {
+      logIn();
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const likeBtn = shadow.querySelector('.comment[data-post-id="2"] .like-btn') as HTMLButtonElement;
+
+      expect(likeBtn.getAttribute('aria-pressed')).toBe('true');
+      expect(likeBtn.getAttribute('aria-label')).toBe('Like (1 like)');
+      expect(likeBtn.querySelector('svg')!.getAttribute('aria-hidden')).toBe('true');
+      expect(shadow.querySelector('.like-count-only')!.getAttribute('aria-label')).toBe('3 likes');
+
+      likeBtn.click();
+
+      await vi.waitFor(() => expect(likeBtn.getAttribute('aria-pressed')).toBe('false'));
+      expect(likeBtn.getAttribute('aria-label')).toBe('Like (0 likes)');
+    });
+
+    it('announces status messages in a live region', async () => {
+      logIn();
+      mockCreatePost.mockResolvedValue({ ...makePost(99), post_number: 3 });
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const announcer = shadow.querySelector('.announcer')!;
+      expect(announcer.getAttribute('aria-live')).toBe('polite');
+
+      (shadow.getElementById('comment-text') as HTMLTextAreaElement).value = 'Hello';
+      (shadow.getElementById('submit-comment') as HTMLButtonElement).click();
+
+      await vi.waitFor(() => expect(announcer.textContent).toBe('Comment posted successfully!'));
+    });
+
+    it('reports load errors as alerts', async () => {
+      mockGetTopic.mockRejectedValue(new Error('Network down'));
+
+      const el = await mountElement();
+
+      expect(el.shadowRoot!.querySelector('.error')!.getAttribute('role')).toBe('alert');
+    });
+
+    it('moves focus into the key entry form and back out on Escape', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+
+      (shadow.getElementById('manual-key-btn') as HTMLButtonElement).click();
+
+      const textarea = shadow.getElementById('manual-key')!;
+      expect(shadow.activeElement).toBe(textarea);
+      expect(shadow.querySelector('label[for="manual-key"]')).not.toBeNull();
+
+      press(textarea, 'Escape');
+
+      expect(shadow.getElementById('manual-key')).toBeNull();
+      expect(shadow.activeElement).toBe(shadow.getElementById('manual-key-btn'));
+    });
+
+    it('returns focus to the Reply button when a reply is cancelled', async () => {
+      logIn();
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const comment = shadow.querySelector('.comment[data-post-id="2"]')!;
+      const replyBtn = comment.querySelector('.reply-btn') as HTMLButtonElement;
+
+      replyBtn.click();
+      const textarea = comment.querySelector('.reply-text')!;
+      expect(shadow.activeElement).toBe(textarea);
+
+      press(textarea, 'Escape');
+
+      expect(comment.querySelector('.reply-composer')).toBeNull();
+      expect(shadow.activeElement).toBe(replyBtn);
+    });
+
+    it('moves focus to the first loaded comment after Load more', async () => {
+      mockGetTopic.mockResolvedValue({
+        title: 'Paged Topic',
+        post_stream: { posts: [makePost(1), makePost(2)], stream: [1, 2, 3, 4] },
+      });
+      mockGetTopicPosts.mockResolvedValue({ post_stream: { posts: [makePost(3), makePost(4)] } });
+
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const loadMoreBtn = shadow.getElementById('load-more-btn') as HTMLButtonElement;
+      loadMoreBtn.focus();
+      loadMoreBtn.click();
+
+      await vi.waitFor(() => expect(shadow.activeElement).toBe(shadow.querySelector('.comment[data-post-id="3"]')));
+      expect(shadow.querySelector('.announcer')!.textContent).toBe('2 more comments loaded');
+      expect(shadow.querySelector('.comments-list')!.getAttribute('aria-busy')).toBe('false');
+    });
+
+    it('moves between comments with Page Down and Page Up', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const [first, second] = Array.from(shadow.querySelectorAll<HTMLElement>('.comment'));
+
+      first.focus();
+      press(first, 'PageDown');
+      expect(shadow.activeElement).toBe(second);
+
+      press(second, 'PageUp');
+      expect(shadow.activeElement).toBe(first);
+    });
+
+    it('passes axe checks for readers', async () => {
+      await expectNoViolations(await mountElement({ 'user-cards': '' }));
+    });
+
+    it('passes axe checks with composers open', async () => {
+      logIn();
+      mockGetPost.mockResolvedValue({ ...makePost(1), raw: 'First post content' });
+      const el = await mountElement({ layout: 'threaded' });
+      const shadow = el.shadowRoot!;
+
+      (shadow.querySelector('.comment[data-post-id="2"] .reply-btn') as HTMLButtonElement).click();
+      (shadow.querySelector('.comment[data-post-id="1"] .edit-btn') as HTMLButtonElement).click();
+      await vi.waitFor(() => expect(shadow.querySelector<HTMLTextAreaElement>('.edit-text')!.value).not.toBe(''));
+
+      await expectNoViolations(el);
+    });
+
+    it('passes axe checks with suggestions open', async () => {
+      logIn();
+      const el = await mountElement();
+      const textarea = el.shadowRoot!.getElementById('comment-text') as HTMLTextAreaElement;
+
+      textarea.value = '@';
+      textarea.setSelectionRange(1, 1);
+      textarea.dispatchEvent(new Event('input'));
+      expect(el.shadowRoot!.querySelector<HTMLElement>('.autocomplete')!.hidden).toBe(false);
+
+      await expectNoViolations(el);
+    });
+
+    it('passes axe checks before loading and on errors', async () => {
+      const lazy = createElement({ loading: 'lazy' });
+      vi.stubGlobal('IntersectionObserver', class {
+        observe() {}
+        disconnect() {}
+      });
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({}) }));
+      document.body.appendChild(lazy);
+      await expectNoViolations(lazy);
+      vi.unstubAllGlobals();
+
+      mockGetTopic.mockRejectedValue(new Error('Network down'));
+      await expectNoViolations(await mountElement());
+    });
+  });
+
+  describe('autocomplete', () => {
+    beforeEach(() => {
+      localStorage.setItem('discourse-comments-api-key-https://forum.example.com', 'test-api-key');
+      clearEmojiCache();
+      vi.stubGlobal('fetch', vi.fn(async (url: string) => ({
+        ok: true,
+        status: 200,
+        json: async () => url.includes('/u/search/users.json')
+          ? { users: [{ username: 'bea', name: 'Bea Arthur' }, { username: 'bob' }] }
+          : { smileys: ['smile', 'smiley', 'sweat_smile', 'grinning'].map(name => ({ name, url: `/images/emoji/twitter/${name}.png` })) },
+      })));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function type(textarea: HTMLTextAreaElement, text: string) {
+      textarea.value = text;
+      textarea.setSelectionRange(text.length, text.length);
+      textarea.dispatchEvent(new Event('input'));
+    }
+
+    function press(target: Element, key: string) {
+      target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, composed: true }));
+    }
+
+    function optionLabels(el: DiscourseComments): string[] {
+      return Array.from(el.shadowRoot!.querySelectorAll('.autocomplete:not([hidden]) [role="option"] .autocomplete-label'))
+        .map(label => label.textContent!);
+    }
+
+    it('suggests the topic\'s participants as soon as @ is typed', async () => {
+      const el = await mountElement();
+      const shadow = el.shadowRoot!;
+      const textarea = shadow.getElementById('comment-text') as HTMLTextAreaElement;
+
+      type(textarea, 'Thanks @');
+
+      expect(optionLabels(el)).toEqual(['@bob', '@alice']);
+      const list = shadow.getElementById(textarea.getAttribute('aria-controls')!)!;
+      expect(list.getAttribute('role')).toBe('listbox');
+      const first = list.querySelector('[role="option"]')!;
+      expect(textarea.getAttribute('aria-activedescendant')).toBe(first.id);
+      expect(first.getAttribute('aria-selected')).toBe('true');
+      expect(shadow.querySelector('.announcer')!.textContent).toContain('2 suggestions');
+    });
+
+    it('fills the list in from the forum\'s user search', async () => {
+      const el = await mountElement();
+      const textarea = el.shadowRoot!.getElementById('comment-text') as HTMLTextAreaElement;
+
+      type(textarea, '@b');
+
+      expect(optionLabels(el)).toEqual(['@bob']);
+      await vi.waitFor(() => expect(optionLabels(el)).toEqual(['@bob', '@bea']));
+      const searchUrl = new URL(vi.mocked(fetch).mock.calls[0][0] as string);
+      expect(searchUrl.searchParams.get('term')).toBe('b');
+      expect(searchUrl.searchParams.get('topic_id')).toBe('42');
+    });
+
+    it('inserts the highlighted suggestion from the keyboard', async () => {
+      const el = await mountElement();
+      const textarea = el.shadowRoot!.getElementById('comment-text') as HTMLTextAreaElement;
+
+      type(textarea, 'Hi @');
+      press(textarea, 'ArrowDown');
+      press(textarea, 'Enter');
+
+      expect(textarea.value).toBe('Hi @alice ');
+      expect(textarea.selectionStart).toBe(10);
+      expect(optionLabels(el)).toEqual([]);
+      expect(textarea.hasAttribute('aria-activedescendant')).toBe(false);
+    });
+
+    it('suggests emoji from the forum and inserts the one clicked', async () => {
+      const el = await mountElement();
+      const textarea = el.shadowRoot!.getElementById('comment-text') as HTMLTextAreaElement;
+
+      type(textarea, 'Nice :smi');
+
+      await vi.waitFor(() => expect(optionLabels(el)).toEqual([':smile:', ':smiley:', ':sweat_smile:']));
+      const option = el.shadowRoot!.querySelectorAll('.autocomplete [role="option"]')[1];
+      expect(option.querySelector('img')!.getAttribute('src')).toBe('https://forum.example.com/images/emoji/twitter/smiley.png');
+
+      (option as HTMLElement).click();
+
+      expect(textarea.value).toBe('Nice :smiley: ');
+    });
+
+    it('closes the list on Escape before closing a reply composer', async () => {
+      const el = await mountElement();
+      const comment = el.shadowRoot!.querySelector('.comment[data-post-id="2"]')!;
+      (comment.querySelector('.reply-btn') as HTMLButtonElement).click();
+      const textarea = comment.querySelector('.reply-text') as HTMLTextAreaElement;
+
+      type(textarea, '@');
+      press(textarea, 'Escape');
+
+      expect(optionLabels(el)).toEqual([]);
+      expect(comment.querySelector('.reply-composer')).not.toBeNull();
+
+      press(textarea, 'Escape');
+
+      expect(comment.querySelector('.reply-composer')).toBeNull();
+    });
+  });
+});
\ No newline at end of file
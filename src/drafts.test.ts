@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { clearDraft, fetchRemoteDraft, loadDraft, saveDraft, saveRemoteDraft } from './drafts.js';
+
+const topicDraft = { discourseUrl: 'https://forum.example.com', topic: '42', replyToPostNumber: null };
+const replyDraft = { ...topicDraft, replyToPostNumber: 3 };
+
+function jsonResponse(status: number, body: unknown = {}) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+describe('local drafts', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('saves and restores drafts per reply target', () => {
+    saveDraft(topicDraft, 'A comment');
+    saveDraft(replyDraft, 'A reply');
+
+    expect(loadDraft(topicDraft)).toBe('A comment');
+    expect(loadDraft(replyDraft)).toBe('A reply');
+    expect(loadDraft({ ...topicDraft, topic: '43' })).toBe('');
+    expect(loadDraft({ ...topicDraft, discourseUrl: 'https://other.example.com' })).toBe('');
+  });
+
+  it('clears drafts', () => {
+    saveDraft(topicDraft, 'A comment');
+    clearDraft(topicDraft);
+
+    expect(loadDraft(topicDraft)).toBe('');
+  });
+
+  it('drops blank drafts instead of saving them', () => {
+    saveDraft(topicDraft, 'A comment');
+    saveDraft(topicDraft, '  \n');
+
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('forgets drafts after a month', () => {
+    const now = Date.now();
+    saveDraft(topicDraft, 'Old comment', now - 31 * 24 * 60 * 60_000);
+
+    expect(loadDraft(topicDraft, now)).toBe('');
+    expect(localStorage.length).toBe(0);
+  });
+});
+
+describe('remote drafts', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fetches the topic draft and its sequence', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {
+      draft: JSON.stringify({ reply: 'Started on the forum', action: 'reply' }),
+      draft_sequence: 4,
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const draft = await fetchRemoteDraft('https://forum.example.com/', 42, { 'User-Api-Key': 'k' });
+
+    expect(draft).toEqual({ raw: 'Started on the forum', sequence: 4 });
+    expect(fetchMock).toHaveBeenCalledWith('https://forum.example.com/drafts/topic_42.json', {
+      headers: { 'User-Api-Key': 'k' },
+    });
+  });
+
+  it('returns the sequence even without a draft', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(200, { draft: null, draft_sequence: 2 })));
+
+    expect(await fetchRemoteDraft('https://forum.example.com', 42, {})).toEqual({ raw: '', sequence: 2 });
+  });
+
+  it('saves the draft under Discourse\'s topic draft key', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { success: 'OK', draft_sequence: 5 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const sequence = await saveRemoteDraft('https://forum.example.com', 42, 'Hello', 4, { 'User-Api-Key': 'k' });
+
+    expect(sequence).toBe(5);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://forum.example.com/drafts.json');
+    expect(init.headers).toEqual({ 'User-Api-Key': 'k', 'Content-Type': 'application/x-www-form-urlencoded' });
+    const body = new URLSearchParams(init.body);
+    expect(body.get('draft_key')).toBe('topic_42');
+    expect(body.get('sequence')).toBe('4');
+    expect(JSON.parse(body.get('data')!)).toEqual({ reply: 'Hello', action: 'reply', topicId: 42 });
+  });
+
+  it('keeps the sequence when the answer is not JSON', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => JSON.parse(''),
+    }));
+
+    expect(await saveRemoteDraft('https://forum.example.com', 42, 'Hello', 4, {})).toBe(4);
+  });
+
+  it('throws when the forum rejects the draft', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(409)));
+
+    await expect(saveRemoteDraft('https://forum.example.com', 42, 'Hello', 1, {})).rejects.toThrow('HTTP 409');
+  });
+});
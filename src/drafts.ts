@@ -0,0 +1,117 @@
+/**
+ * Unsent comment drafts.
+ *
+ * Drafts are saved to localStorage as the reader types, per forum, topic
+ * and reply target, so they survive reloads and the login redirect.
+ * Top-level drafts can also be synced to Discourse's drafts API, which lets
+ * a comment started in the embed be finished on the forum.
+ */
+
+import { fetchJson, isRecord, normalizeBaseUrl } from './utils.js';
+
+const DRAFT_PREFIX = 'discourse-comments-draft:';
+
+// Drafts nobody came back to within a month are dropped
+const DRAFT_TTL = 30 * 24 * 60 * 60_000;
+
+export interface DraftTarget {
+  discourseUrl: string;
+  // The topic ID, or the page URL while the page has no topic yet
+  topic: string;
+  replyToPostNumber: number | null;
+}
+
+export interface RemoteDraft {
+  raw: string;
+  sequence: number;
+}
+
+function draftKey(target: DraftTarget): string {
+  const replyTo = target.replyToPostNumber ?? 'topic';
+  return `${DRAFT_PREFIX}${target.discourseUrl}:${target.topic}:${replyTo}`;
+}
+
+export function loadDraft(target: DraftTarget, now: number = Date.now()): string {
+  const key = draftKey(target);
+  try {
+    const draft = JSON.parse(localStorage.getItem(key) || 'null');
+    if (typeof draft?.raw === 'string' && typeof draft.savedAt === 'number') {
+      if (now - draft.savedAt < DRAFT_TTL) return draft.raw;
+    }
+  } catch {
+    // Fall through and drop whatever is there
+  }
+  localStorage.removeItem(key);
+  return '';
+}
+
+export function saveDraft(target: DraftTarget, raw: string, now: number = Date.now()) {
+  if (!raw.trim()) {
+    clearDraft(target);
+    return;
+  }
+  localStorage.setItem(draftKey(target), JSON.stringify({ raw, savedAt: now }));
+}
+
+export function clearDraft(target: DraftTarget) {
+  localStorage.removeItem(draftKey(target));
+}
+
+// The key Discourse's own composer uses for replies to a topic
+function remoteDraftKey(topicId: number): string {
+  return `topic_${topicId}`;
+}
+
+/**
+ * Fetch the reader's draft for a topic from the forum. The sequence must be
+ * passed back when saving, so it's returned even when there is no draft.
+ */
+export async function fetchRemoteDraft(
+  discourseUrl: string,
+  topicId: number,
+  headers: Record<string, string>
+): Promise<RemoteDraft> {
+  const base = normalizeBaseUrl(discourseUrl);
+  const answer = await fetchJson(`${base}/drafts/${remoteDraftKey(topicId)}.json`, { headers });
+  const data = isRecord(answer) ? answer : {};
+  let raw = '';
+  try {
+    const draft = typeof data.draft === 'string' ? JSON.parse(data.draft) : data.draft;
+    raw = typeof draft?.reply === 'string' ? draft.reply : '';
+  } catch {
+    // A draft we can't read is no draft
+  }
+  return { raw, sequence: Number(data.draft_sequence) || 0 };
+}
+
+/**
+ * Save a topic draft to the forum, returning the new draft sequence.
+ */
+export async function saveRemoteDraft(
+  discourseUrl: string,
+  topicId: number,
+  raw: string,
+  sequence: number,
+  headers: Record<string, string>
+): Promise<number> {
+  const base = normalizeBaseUrl(discourseUrl);
+  const body = new URLSearchParams({
+    draft_key: remoteDraftKey(topicId),
+    sequence: String(sequence),
+    data: JSON.stringify({ reply: raw, action: 'reply', topicId }),
+  });
+
+  let answer: unknown;
+  try {
+    answer = await fetchJson(`${base}/drafts.json`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+    });
+  } catch (error) {
+    // Saved, just without a readable answer; keep the sequence we had
+    if (!(error instanceof SyntaxError)) throw error;
+  }
+  const data = isRecord(answer) ? answer : {};
+  return Number(data.draft_sequence ?? sequence);
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createTopic, externalIdForUrl, getCanonicalUrl, getPageTitle, lookupTopicId } from './embed.js';
+
+function jsonResponse(status: number, body: unknown = {}) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+describe('getCanonicalUrl', () => {
+  afterEach(() => {
+    document.head.innerHTML = '';
+  });
+
+  it('prefers the canonical link', () => {
+    document.head.innerHTML = '<link rel="canonical" href="https://blog.example.com/posts/hello">';
+    expect(getCanonicalUrl()).toBe('https://blog.example.com/posts/hello');
+  });
+
+  it('falls back to the current URL without query or hash', () => {
+    expect(getCanonicalUrl()).toBe(window.location.origin + window.location.pathname);
+  });
+});
+
+describe('externalIdForUrl', () => {
+  it('derives a stable ID Discourse accepts', async () => {
+    const id = await externalIdForUrl('https://blog.example.com/posts/hello');
+
+    expect(id).toMatch(/^[\w-]{1,50}$/);
+    expect(await externalIdForUrl('https://blog.example.com/posts/hello')).toBe(id);
+    expect(await externalIdForUrl('https://blog.example.com/posts/other')).not.toBe(id);
+  });
+});
+
+describe('lookupTopicId', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('finds the topic by external ID', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { id: 42 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const topicId = await lookupTopicId('https://forum.example.com/', 'https://blog/x', 'dc-abc', { 'User-Api-Key': 'k' });
+
+    expect(topicId).toBe(42);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://forum.example.com/t/external_id/dc-abc.json',
+      { headers: { 'User-Api-Key': 'k' } }
+    );
+  });
+
+  it('falls back to the embed info endpoint', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(404))
+      .mockResolvedValueOnce(jsonResponse(200, { topic_id: 7 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const topicId = await lookupTopicId('https://forum.example.com', 'https://blog/x?a=1', 'dc-abc');
+
+    expect(topicId).toBe(7);
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      'https://forum.example.com/embed/info.json?embed_url=https%3A%2F%2Fblog%2Fx%3Fa%3D1'
+    );
+  });
+
+  it('returns null when neither lookup finds a topic', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(jsonResponse(404))
+      .mockResolvedValueOnce(jsonResponse(403)));
+
+    expect(await lookupTopicId('https://forum.example.com', 'https://blog/x', 'dc-abc')).toBeNull();
+  });
+
+  it('throws on server errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(500)));
+
+    await expect(lookupTopicId('https://forum.example.com', 'https://blog/x', 'dc-abc')).rejects.toThrow('HTTP 500');
+  });
+});
+
+describe('getPageTitle', () => {
+  afterEach(() => {
+    document.head.innerHTML = '';
+    document.title = '';
+  });
+
+  it('prefers og:title over the document title', () => {
+    document.title = 'Hello | My Blog';
+    document.head.insertAdjacentHTML('beforeend', '<meta property="og:title" content="Hello">');
+    expect(getPageTitle()).toBe('Hello');
+  });
+
+  it('falls back to the document title', () => {
+    document.title = 'Hello | My Blog';
+    expect(getPageTitle()).toBe('Hello | My Blog');
+  });
+});
+
+describe('createTopic', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('creates the topic with its external ID, category and tags', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { id: 100, topic_id: 55 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const topicId = await createTopic('https://forum.example.com', {
+      title: 'Hello world post',
+      raw: 'https://blog/x',
+      externalId: 'dc-abc',
+      categoryId: 5,
+      tags: ['blog'],
+    }, { 'User-Api-Key': 'k' });
+
+    expect(topicId).toBe(55);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://forum.example.com/posts.json');
+    expect(init.method).toBe('POST');
+    expect(init.headers['User-Api-Key']).toBe('k');
+    expect(JSON.parse(init.body)).toEqual({
+      title: 'Hello world post',
+      raw: 'https://blog/x',
+      external_id: 'dc-abc',
+      category: 5,
+      tags: ['blog'],
+    });
+  });
+
+  it('throws the errors Discourse returns', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      jsonResponse(422, { errors: ['Title is too short'] })
+    ));
+
+    await expect(createTopic('https://forum.example.com', {
+      title: 'Hi',
+      raw: 'https://blog/x',
+      externalId: 'dc-abc',
+    })).rejects.toThrow('Title is too short');
+  });
+});
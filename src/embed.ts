@@ -0,0 +1,132 @@
+/**
+ * Topic lookup for pages that don't hard-code a topic-id.
+ *
+ * Pages are matched to topics the same way Discourse's own embedding does:
+ * by the topic's external ID, falling back to the embed info endpoint.
+ */
+
+import { getErrorStatus } from './mutations.js';
+import { fetchJson, isRecord, normalizeBaseUrl } from './utils.js';
+
+// Keeps derived IDs apart from ones assigned by other integrations
+const EXTERNAL_ID_PREFIX = 'dc-';
+
+/**
+ * The URL Discourse should know this page by: the canonical link when the
+ * page declares one, otherwise the current URL without query or hash.
+ */
+export function getCanonicalUrl(): string {
+  const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+  if (canonical?.href) {
+    return canonical.href;
+  }
+  return window.location.origin + window.location.pathname;
+}
+
+/**
+ * Derive a stable external ID for a page URL. Discourse limits external IDs
+ * to 50 word characters and dashes, so we use a SHA-1 of the URL instead.
+ */
+export async function externalIdForUrl(url: string): Promise<string> {
+  const data = new TextEncoder().encode(url);
+  const digest = await window.crypto.subtle.digest('SHA-1', data);
+  const hex = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return EXTERNAL_ID_PREFIX + hex;
+}
+
+async function fetchTopicId(url: string, headers: Record<string, string>): Promise<number | null> {
+  let data: unknown;
+  try {
+    data = await fetchJson(url, { headers });
+  } catch (error) {
+    // Missing topics and endpoints the user can't reach both mean "not found"
+    const status = getErrorStatus(error);
+    if (status === 404 || status === 403) return null;
+    throw error;
+  }
+
+  const topicId = isRecord(data) ? Number(data.topic_id ?? data.id) : NaN;
+  return Number.isInteger(topicId) && topicId > 0 ? topicId : null;
+}
+
+/**
+ * Find the topic for a page, returning null when no discussion exists yet.
+ */
+export async function lookupTopicId(
+  discourseUrl: string,
+  embedUrl: string,
+  externalId: string,
+  headers: Record<string, string> = {}
+): Promise<number | null> {
+  const base = normalizeBaseUrl(discourseUrl);
+
+  const byExternalId = await fetchTopicId(
+    `${base}/t/external_id/${encodeURIComponent(externalId)}.json`,
+    headers
+  );
+  if (byExternalId !== null) {
+    return byExternalId;
+  }
+
+  return fetchTopicId(
+    `${base}/embed/info.json?embed_url=${encodeURIComponent(embedUrl)}`,
+    headers
+  );
+}
+
+/**
+ * The title for a new discussion topic: og:title when the page has one,
+ * otherwise the document title.
+ */
+export function getPageTitle(): string {
+  const ogTitle = document.querySelector<HTMLMetaElement>('meta[property="og:title"]');
+  return ogTitle?.content?.trim() || document.title.trim();
+}
+
+export interface NewTopic {
+  title: string;
+  raw: string;
+  externalId: string;
+  categoryId?: number;
+  tags?: string[];
+}
+
+/**
+ * Create the discussion topic for a page, tagged with its external ID so
+ * lookupTopicId() finds it for later visitors. Returns the new topic's ID.
+ */
+export async function createTopic(
+  discourseUrl: string,
+  topic: NewTopic,
+  headers: Record<string, string> = {}
+): Promise<number> {
+  const base = normalizeBaseUrl(discourseUrl);
+
+  const body: Record<string, unknown> = {
+    title: topic.title,
+    raw: topic.raw,
+    external_id: topic.externalId,
+  };
+  if (topic.categoryId !== undefined) {
+    body.category = topic.categoryId;
+  }
+  if (topic.tags && topic.tags.length > 0) {
+    body.tags = topic.tags;
+  }
+
+  const response = await fetch(`${base}/posts.json`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const errors = Array.isArray(data.errors) ? data.errors.join(', ') : '';
+    throw new Error(errors || `HTTP ${response.status}`);
+  }
+
+  return Number(data.topic_id);
+}
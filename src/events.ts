@@ -0,0 +1,58 @@
+/**
+ * DOM events dispatched by <discourse-comments>.
+ *
+ * All events bubble and cross the shadow boundary, so host pages can
+ * listen on the element itself or anywhere above it.
+ */
+
+import type { Reaction } from './reactions.js';
+
+export interface LoadedDetail {
+  // null when embed-url mode found no topic for the page
+  topicId: number | null;
+  title: string;
+  postsCount: number;
+}
+
+export interface PostedDetail {
+  topicId: number;
+  postId: number;
+  postNumber: number;
+  replyToPostNumber: number | null;
+}
+
+export interface LikedDetail {
+  postId: number;
+  liked: boolean;
+  likeCount: number;
+}
+
+export interface ReactedDetail {
+  postId: number;
+  // The reader's reaction after the toggle, or null if they removed it
+  reaction: string | null;
+  reactions: Reaction[];
+}
+
+export interface AuthChangedDetail {
+  loggedIn: boolean;
+}
+
+export interface ErrorDetail {
+  message: string;
+  error: unknown;
+}
+
+export interface DiscourseCommentsEventMap {
+  'dc:loaded': CustomEvent<LoadedDetail>;
+  'dc:posted': CustomEvent<PostedDetail>;
+  'dc:liked': CustomEvent<LikedDetail>;
+  'dc:reacted': CustomEvent<ReactedDetail>;
+  'dc:auth-changed': CustomEvent<AuthChangedDetail>;
+  'dc:error': CustomEvent<ErrorDetail>;
+}
+
+export type DiscourseCommentsEventName = keyof DiscourseCommentsEventMap;
+
+export type DiscourseCommentsEventDetail<K extends DiscourseCommentsEventName> =
+  DiscourseCommentsEventMap[K] extends CustomEvent<infer D> ? D : never;
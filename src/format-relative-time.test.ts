@@ -60,4 +60,70 @@ describe('formatRelativeTime', () => {
     const date = new Date(now.getTime() - 45 * 86_400_000);
     expect(formatRelativeTime(date)).toBe(date.toLocaleDateString());
   });
+
+  describe('German', () => {
+    it('returns "gerade eben" for less than 1 minute ago', () => {
+      setNow(now);
+      expect(formatRelativeTime(new Date(now.getTime() - 30_000), 'de')).toBe('gerade eben');
+    });
+
+    it('returns "vor 1 Minute" (singular)', () => {
+      setNow(now);
+      expect(formatRelativeTime(new Date(now.getTime() - 60_000), 'de')).toBe('vor 1 Minute');
+    });
+
+    it('returns "vor 5 Minuten" (plural)', () => {
+      setNow(now);
+      expect(formatRelativeTime(new Date(now.getTime() - 5 * 60_000), 'de')).toBe('vor 5 Minuten');
+    });
+
+    it('returns "vor 12 Stunden"', () => {
+      setNow(now);
+      expect(formatRelativeTime(new Date(now.getTime() - 12 * 3_600_000), 'de')).toBe('vor 12 Stunden');
+    });
+
+    it('returns "vor 1 Tag" (singular)', () => {
+      setNow(now);
+      expect(formatRelativeTime(new Date(now.getTime() - 86_400_000), 'de')).toBe('vor 1 Tag');
+    });
+
+    it('returns "vor 15 Tagen" (plural)', () => {
+      setNow(now);
+      expect(formatRelativeTime(new Date(now.getTime() - 15 * 86_400_000), 'de')).toBe('vor 15 Tagen');
+    });
+
+    it('returns a German date for 30+ days ago', () => {
+      setNow(now);
+      const date = new Date(now.getTime() - 45 * 86_400_000);
+      expect(formatRelativeTime(date, 'de')).toBe(date.toLocaleDateString('de'));
+    });
+  });
+
+  describe('Japanese', () => {
+    it('returns "たった今" for less than 1 minute ago', () => {
+      setNow(now);
+      expect(formatRelativeTime(new Date(now.getTime() - 30_000), 'ja')).toBe('たった今');
+    });
+
+    it('returns "5 分前"', () => {
+      setNow(now);
+      expect(formatRelativeTime(new Date(now.getTime() - 5 * 60_000), 'ja')).toBe('5 分前');
+    });
+
+    it('returns "1 時間前"', () => {
+      setNow(now);
+      expect(formatRelativeTime(new Date(now.getTime() - 3_600_000), 'ja')).toBe('1 時間前');
+    });
+
+    it('returns "15 日前"', () => {
+      setNow(now);
+      expect(formatRelativeTime(new Date(now.getTime() - 15 * 86_400_000), 'ja')).toBe('15 日前');
+    });
+  });
+
+  it('uses the base language for regional locales', () => {
+    setNow(now);
+    expect(formatRelativeTime(new Date(now.getTime() - 30_000), 'de-AT')).toBe('gerade eben');
+    expect(formatRelativeTime(new Date(now.getTime() - 2 * 3_600_000), 'de-AT')).toBe('vor 2 Stunden');
+  });
 });
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { registerMessages, resolveLocale, translate } from './i18n.js';
+
+describe('translate', () => {
+  it('looks messages up in the requested locale', () => {
+    expect(translate('en', 'postComment')).toBe('Post Comment');
+    expect(translate('de', 'postComment')).toBe('Kommentar senden');
+    expect(translate('ja', 'postComment')).toBe('コメントを投稿');
+  });
+
+  it('falls back to the base language, then English', () => {
+    expect(translate('de-CH', 'logout')).toBe('Abmelden');
+    expect(translate('fr', 'logout')).toBe('Logout');
+  });
+
+  it('fills in placeholders', () => {
+    expect(translate('en', 'replyTo', { username: 'alice' })).toBe('Reply to alice...');
+    expect(translate('ja', 'replyTo', { username: 'alice' })).toBe('alice さんに返信...');
+  });
+
+  it('picks plural forms by count', () => {
+    expect(translate('en', 'newComments', { count: 1 })).toBe('1 new comment');
+    expect(translate('en', 'newComments', { count: 3 })).toBe('3 new comments');
+    expect(translate('de', 'newComments', { count: 1 })).toBe('1 neuer Kommentar');
+    expect(translate('de', 'newComments', { count: 3 })).toBe('3 neue Kommentare');
+    expect(translate('ja', 'newComments', { count: 1 })).toBe('1 件の新しいコメント');
+  });
+});
+
+describe('resolveLocale', () => {
+  it('prefers the attribute, then the page language', () => {
+    document.documentElement.lang = 'de-AT';
+
+    expect(resolveLocale('ja')).toBe('ja');
+    expect(resolveLocale(null)).toBe('de-AT');
+    document.documentElement.lang = '';
+  });
+
+  it('falls back to English for tags Intl rejects', () => {
+    expect(resolveLocale('not a locale!')).toBe('en');
+  });
+});
+
+describe('registerMessages', () => {
+  it('adds a locale, falling back to English for missing messages', () => {
+    registerMessages('nl', { postComment: 'Reactie plaatsen', newComments: { one: '{count} nieuwe reactie', other: '{count} nieuwe reacties' } });
+
+    expect(translate('nl', 'postComment')).toBe('Reactie plaatsen');
+    expect(translate('nl-BE', 'newComments', { count: 2 })).toBe('2 nieuwe reacties');
+    expect(translate('nl', 'logout')).toBe('Logout');
+  });
+
+  it('overrides messages in a built-in locale', () => {
+    registerMessages('en-GB', { logout: 'Sign out' });
+
+    expect(translate('en-GB', 'logout')).toBe('Sign out');
+    expect(translate('en-GB', 'login')).toBe('Login to Comment');
+    expect(translate('en', 'logout')).toBe('Logout');
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * UI strings for <discourse-comments>.
+ *
+ * Each locale is a catalog of messages keyed like the English one below.
+ * Catalogs can be partial: missing messages fall back to the base language
+ * ("de" for "de-AT") and then to English. Host pages add or override
+ * catalogs with registerMessages().
+ */
+
+// Messages that depend on a count, keyed by Intl.PluralRules category
+export type PluralMessage = { other: string } & Partial<Record<Intl.LDMLPluralRule, string>>;
+
+export interface Messages {
+  comments: string;
+  loading: string;
+  showComments: string;
+  showCommentsCount: PluralMessage;
+  loadingMore: string;
+  login: string;
+  manualKeyEntry: string;
+  logout: string;
+  pasteKey: string;
+  pasteKeyPlaceholder: string;
+  saveKey: string;
+  cancel: string;
+  writeComment: string;
+  postComment: string;
+  posting: string;
+  sending: string;
+  queued: string;
+  you: string;
+  commentPosted: string;
+  noDiscussion: string;
+  logInToStart: string;
+  writeFirstComment: string;
+  startDiscussion: string;
+  starting: string;
+  write: string;
+  preview: string;
+  nothingToPreview: string;
+  formatBold: string;
+  formatItalic: string;
+  formatLink: string;
+  formatCode: string;
+  formatQuote: string;
+  toolbarBold: string;
+  toolbarItalic: string;
+  toolbarLink: string;
+  toolbarCode: string;
+  toolbarQuote: string;
+  placeholderBold: string;
+  placeholderItalic: string;
+  placeholderLink: string;
+  placeholderCode: string;
+  placeholderQuote: string;
+  reply: string;
+  quote: string;
+  edit: string;
+  delete: string;
+  loginToLike: string;
+  likeLabel: PluralMessage;
+  likeCount: PluralMessage;
+  addReaction: string;
+  loginToReact: string;
+  save: string;
+  editComment: string;
+  commentSaved: string;
+  saving: string;
+  confirmDelete: string;
+  postDeleted: string;
+  commentDeleted: string;
+  replyTo: string;
+  postReply: string;
+  showMoreReplies: PluralMessage;
+  loadMore: string;
+  moreCommentsLoaded: PluralMessage;
+  newComments: PluralMessage;
+  commentCount: PluralMessage;
+  sortBy: string;
+  sortOldest: string;
+  sortNewest: string;
+  sortTop: string;
+  filterBy: string;
+  filterAll: string;
+  filterAuthor: string;
+  filterStaff: string;
+  noMatchingComments: string;
+  roleAdmin: string;
+  roleModerator: string;
+  roleAuthor: string;
+  viewProfile: string;
+  suggestions: string;
+  suggestionsAvailable: PluralMessage;
+  justNow: string;
+  errorPrefix: string;
+  authFailed: string;
+  loginFailed: string;
+  loginTimedOut: string;
+  loadFailed: string;
+  loadMoreFailed: string;
+  startFailed: string;
+  loadPostFailed: string;
+  saveFailed: string;
+  deleteFailed: string;
+  replyFailed: string;
+  postFailed: string;
+  likeFailed: string;
+  reactionFailed: string;
+  notAuthenticated: string;
+}
+
+export type MessageKey = keyof Messages;
+
+export const DEFAULT_LOCALE = 'en';
+
+const en: Messages = {
+  comments: 'Comments',
+  loading: 'Loading comments...',
+  showComments: 'Show comments',
+  showCommentsCount: { one: 'Show {count} comment', other: 'Show {count} comments' },
+  loadingMore: 'Loading...',
+  login: 'Login to Comment',
+  manualKeyEntry: 'Manual Key Entry',
+  logout: 'Logout',
+  pasteKey: 'Paste your API key below:',
+  pasteKeyPlaceholder: 'Paste API key here',
+  saveKey: 'Save Key',
+  cancel: 'Cancel',
+  writeComment: 'Write your comment...',
+  postComment: 'Post Comment',
+  posting: 'Posting...',
+  sending: 'Sending...',
+  queued: 'Waiting for a connection...',
+  you: 'You',
+  commentPosted: 'Comment posted successfully!',
+  noDiscussion: 'No discussion yet.',
+  logInToStart: 'Log in to start it.',
+  writeFirstComment: 'Write the first comment...',
+  startDiscussion: 'Start the discussion',
+  starting: 'Starting...',
+  write: 'Write',
+  preview: 'Preview',
+  nothingToPreview: 'Nothing to preview',
+  formatBold: 'Bold',
+  formatItalic: 'Italic',
+  formatLink: 'Insert link',
+  formatCode: 'Code',
+  formatQuote: 'Quote',
+  toolbarBold: 'B',
+  toolbarItalic: 'I',
+  toolbarLink: 'Link',
+  toolbarCode: '</>',
+  toolbarQuote: '“',
+  placeholderBold: 'strong text',
+  placeholderItalic: 'emphasized text',
+  placeholderLink: 'link text',
+  placeholderCode: 'code',
+  placeholderQuote: 'quote',
+  reply: 'Reply',
+  quote: 'Quote',
+  edit: 'Edit',
+  delete: 'Delete',
+  loginToLike: 'Login to like',
+  likeLabel: { one: 'Like ({count} like)', other: 'Like ({count} likes)' },
+  likeCount: { one: '{count} like', other: '{count} likes' },
+  addReaction: 'Add reaction',
+  loginToReact: 'Login to react',
+  save: 'Save',
+  editComment: 'Edit your comment',
+  commentSaved: 'Comment saved',
+  saving: 'Saving...',
+  confirmDelete: 'Are you sure you want to delete this comment?',
+  postDeleted: '(post deleted by author)',
+  commentDeleted: 'Comment deleted',
+  replyTo: 'Reply to {username}...',
+  postReply: 'Post Reply',
+  showMoreReplies: { one: 'Show {count} more reply', other: 'Show {count} more replies' },
+  loadMore: 'Load more comments ({count})',
+  moreCommentsLoaded: { one: '{count} more comment loaded', other: '{count} more comments loaded' },
+  newComments: { one: '{count} new comment', other: '{count} new comments' },
+  commentCount: { one: '{count} comment', other: '{count} comments' },
+  sortBy: 'Sort by',
+  sortOldest: 'Oldest',
+  sortNewest: 'Newest',
+  sortTop: 'Top',
+  filterBy: 'Show',
+  filterAll: 'All comments',
+  filterAuthor: 'Only the author',
+  filterStaff: 'Only staff',
+  noMatchingComments: 'No comments match this filter yet.',
+  roleAdmin: 'Admin',
+  roleModerator: 'Moderator',
+  roleAuthor: 'Author',
+  viewProfile: 'View profile',
+  suggestions: 'Suggestions',
+  suggestionsAvailable: { one: '{count} suggestion. Use the up and down arrows to choose and Enter to insert.', other: '{count} suggestions. Use the up and down arrows to choose and Enter to insert.' },
+  justNow: 'just now',
+  errorPrefix: 'Error:',
+  authFailed: 'Authentication failed. Please try again.',
+  loginFailed: 'Failed to initiate login. Please try again.',
+  loginTimedOut: 'Login did not finish in time. Please try again.',
+  loadFailed: 'Failed to load comments',
+  loadMoreFailed: 'Failed to load more comments',
+  startFailed: 'Failed to start the discussion',
+  loadPostFailed: 'Failed to load post',
+  saveFailed: 'Failed to save changes',
+  deleteFailed: 'Failed to delete comment',
+  replyFailed: 'Failed to post reply',
+  postFailed: 'Failed to post comment',
+  likeFailed: 'Failed to toggle like',
+  reactionFailed: 'Failed to update reaction',
+  notAuthenticated: 'Not authenticated',
+};
+
+const de: Messages = {
+  comments: 'Kommentare',
+  loading: 'Kommentare werden geladen...',
+  showComments: 'Kommentare anzeigen',
+  showCommentsCount: { one: '{count} Kommentar anzeigen', other: '{count} Kommentare anzeigen' },
+  loadingMore: 'Wird geladen...',
+  login: 'Zum Kommentieren anmelden',
+  manualKeyEntry: 'Schlüssel manuell eingeben',
+  logout: 'Abmelden',
+  pasteKey: 'Füge deinen API-Schlüssel unten ein:',
+  pasteKeyPlaceholder: 'API-Schlüssel hier einfügen',
+  saveKey: 'Schlüssel speichern',
+  cancel: 'Abbrechen',
+  writeComment: 'Schreib einen Kommentar...',
+  postComment: 'Kommentar senden',
+  posting: 'Wird gesendet...',
+  sending: 'Wird gesendet...',
+  queued: 'Wartet auf Verbindung...',
+  you: 'Du',
+  commentPosted: 'Kommentar veröffentlicht!',
+  noDiscussion: 'Noch keine Diskussion.',
+  logInToStart: 'Melde dich an, um sie zu beginnen.',
+  writeFirstComment: 'Schreib den ersten Kommentar...',
+  startDiscussion: 'Diskussion beginnen',
+  starting: 'Wird gestartet...',
+  write: 'Schreiben',
+  preview: 'Vorschau',
+  nothingToPreview: 'Nichts anzuzeigen',
+  formatBold: 'Fett',
+  formatItalic: 'Kursiv',
+  formatLink: 'Link einfügen',
+  formatCode: 'Code',
+  formatQuote: 'Zitat',
+  toolbarBold: 'F',
+  toolbarItalic: 'K',
+  toolbarLink: 'Link',
+  toolbarCode: '</>',
+  toolbarQuote: '„',
+  placeholderBold: 'fetter Text',
+  placeholderItalic: 'kursiver Text',
+  placeholderLink: 'Linktext',
+  placeholderCode: 'Code',
+  placeholderQuote: 'Zitat',
+  reply: 'Antworten',
+  quote: 'Zitieren',
+  edit: 'Bearbeiten',
+  delete: 'Löschen',
+  loginToLike: 'Zum Liken anmelden',
+  likeLabel: { one: 'Gefällt mir ({count} Like)', other: 'Gefällt mir ({count} Likes)' },
+  likeCount: { one: '{count} Like', other: '{count} Likes' },
+  addReaction: 'Reaktion hinzufügen',
+  loginToReact: 'Zum Reagieren anmelden',
+  save: 'Speichern',
+  editComment: 'Kommentar bearbeiten',
+  commentSaved: 'Kommentar gespeichert',
+  saving: 'Wird gespeichert...',
+  confirmDelete: 'Möchtest du diesen Kommentar wirklich löschen?',
+  postDeleted: '(Beitrag vom Autor gelöscht)',
+  commentDeleted: 'Kommentar gelöscht',
+  replyTo: 'Antwort an {username}...',
+  postReply: 'Antwort senden',
+  showMoreReplies: { one: '{count} weitere Antwort anzeigen', other: '{count} weitere Antworten anzeigen' },
+  loadMore: 'Weitere Kommentare laden ({count})',
+  moreCommentsLoaded: { one: '{count} weiterer Kommentar geladen', other: '{count} weitere Kommentare geladen' },
+  newComments: { one: '{count} neuer Kommentar', other: '{count} neue Kommentare' },
+  commentCount: { one: '{count} Kommentar', other: '{count} Kommentare' },
+  sortBy: 'Sortieren nach',
+  sortOldest: 'Älteste',
+  sortNewest: 'Neueste',
+  sortTop: 'Beliebteste',
+  filterBy: 'Anzeigen',
+  filterAll: 'Alle Kommentare',
+  filterAuthor: 'Nur der Autor',
+  filterStaff: 'Nur Team',
+  noMatchingComments: 'Noch keine Kommentare für diesen Filter.',
+  roleAdmin: 'Admin',
+  roleModerator: 'Moderator',
+  roleAuthor: 'Autor',
+  viewProfile: 'Profil ansehen',
+  suggestions: 'Vorschläge',
+  suggestionsAvailable: { one: '{count} Vorschlag. Mit den Pfeiltasten auswählen und mit Enter einfügen.', other: '{count} Vorschläge. Mit den Pfeiltasten auswählen und mit Enter einfügen.' },
+  justNow: 'gerade eben',
+  errorPrefix: 'Fehler:',
+  authFailed: 'Anmeldung fehlgeschlagen. Bitte versuche es erneut.',
+  loginFailed: 'Anmeldung konnte nicht gestartet werden. Bitte versuche es erneut.',
+  loginTimedOut: 'Die Anmeldung wurde nicht rechtzeitig abgeschlossen. Bitte versuche es erneut.',
+  loadFailed: 'Kommentare konnten nicht geladen werden',
+  loadMoreFailed: 'Weitere Kommentare konnten nicht geladen werden',
+  startFailed: 'Die Diskussion konnte nicht begonnen werden',
+  loadPostFailed: 'Beitrag konnte nicht geladen werden',
+  saveFailed: 'Änderungen konnten nicht gespeichert werden',
+  deleteFailed: 'Kommentar konnte nicht gelöscht werden',
+  replyFailed: 'Antwort konnte nicht gesendet werden',
+  postFailed: 'Kommentar konnte nicht gesendet werden',
+  likeFailed: 'Like konnte nicht geändert werden',
+  reactionFailed: 'Reaktion konnte nicht geändert werden',
+  notAuthenticated: 'Nicht angemeldet',
+};
+
+const ja: Messages = {
+  comments: 'コメント',
+  loading: 'コメントを読み込み中...',
+  showComments: 'コメントを表示',
+  showCommentsCount: { other: '{count} 件のコメントを表示' },
+  loadingMore: '読み込み中...',
+  login: 'ログインしてコメント',
+  manualKeyEntry: 'キーを手動で入力',
+  logout: 'ログアウト',
+  pasteKey: 'API キーを下に貼り付けてください:',
+  pasteKeyPlaceholder: 'API キーをここに貼り付け',
+  saveKey: 'キーを保存',
+  cancel: 'キャンセル',
+  writeComment: 'コメントを書く...',
+  postComment: 'コメントを投稿',
+  posting: '投稿中...',
+  sending: '送信中...',
+  queued: '接続を待っています...',
+  you: 'あなた',
+  commentPosted: 'コメントを投稿しました！',
+  noDiscussion: 'まだディスカッションはありません。',
+  logInToStart: 'ログインして始めましょう。',
+  writeFirstComment: '最初のコメントを書く...',
+  startDiscussion: 'ディスカッションを始める',
+  starting: '作成中...',
+  write: '書く',
+  preview: 'プレビュー',
+  nothingToPreview: 'プレビューする内容がありません',
+  formatBold: '太字',
+  formatItalic: '斜体',
+  formatLink: 'リンクを挿入',
+  formatCode: 'コード',
+  formatQuote: '引用',
+  toolbarBold: 'B',
+  toolbarItalic: 'I',
+  toolbarLink: 'リンク',
+  toolbarCode: '</>',
+  toolbarQuote: '“',
+  placeholderBold: '太字',
+  placeholderItalic: '斜体',
+  placeholderLink: 'リンクテキスト',
+  placeholderCode: 'コード',
+  placeholderQuote: '引用',
+  reply: '返信',
+  quote: '引用',
+  edit: '編集',
+  delete: '削除',
+  loginToLike: 'ログインして「いいね！」',
+  likeLabel: { other: 'いいね！（{count} 件）' },
+  likeCount: { other: '{count} 件のいいね！' },
+  addReaction: 'リアクションを追加',
+  loginToReact: 'ログインしてリアクション',
+  save: '保存',
+  editComment: 'コメントを編集',
+  commentSaved: 'コメントを保存しました',
+  saving: '保存中...',
+  confirmDelete: 'このコメントを削除してもよろしいですか？',
+  postDeleted: '（投稿者により削除されました）',
+  commentDeleted: 'コメントを削除しました',
+  replyTo: '{username} さんに返信...',
+  postReply: '返信を投稿',
+  showMoreReplies: { other: 'さらに {count} 件の返信を表示' },
+  loadMore: 'さらにコメントを読み込む ({count})',
+  moreCommentsLoaded: { other: 'さらに {count} 件のコメントを読み込みました' },
+  newComments: { other: '{count} 件の新しいコメント' },
+  commentCount: { other: '{count} 件のコメント' },
+  sortBy: '並べ替え',
+  sortOldest: '古い順',
+  sortNewest: '新しい順',
+  sortTop: '人気順',
+  filterBy: '表示',
+  filterAll: 'すべてのコメント',
+  filterAuthor: '投稿者のみ',
+  filterStaff: 'スタッフのみ',
+  noMatchingComments: 'このフィルターに一致するコメントはまだありません。',
+  roleAdmin: '管理者',
+  roleModerator: 'モデレーター',
+  roleAuthor: '投稿者',
+  viewProfile: 'プロフィールを見る',
+  suggestions: '候補',
+  suggestionsAvailable: { other: '候補が {count} 件あります。上下の矢印キーで選び、Enter で挿入します。' },
+  justNow: 'たった今',
+  errorPrefix: 'エラー:',
+  authFailed: '認証に失敗しました。もう一度お試しください。',
+  loginFailed: 'ログインを開始できませんでした。もう一度お試しください。',
+  loginTimedOut: 'ログインが時間内に完了しませんでした。もう一度お試しください。',
+  loadFailed: 'コメントを読み込めませんでした',
+  loadMoreFailed: 'コメントをさらに読み込めませんでした',
+  startFailed: 'ディスカッションを始められませんでした',
+  loadPostFailed: '投稿を読み込めませんでした',
+  saveFailed: '変更を保存できませんでした',
+  deleteFailed: 'コメントを削除できませんでした',
+  replyFailed: '返信を投稿できませんでした',
+  postFailed: 'コメントを投稿できませんでした',
+  likeFailed: '「いいね！」を切り替えられませんでした',
+  reactionFailed: 'リアクションを変更できませんでした',
+  notAuthenticated: 'ログインしていません',
+};
+
+const catalogs: Map<string, Partial<Messages>> = new Map([
+  ['en', en],
+  ['de', de],
+  ['ja', ja],
+]);
+
+/**
+ * The locale an element should use: its locale attribute, else the page's
+ * language. Tags Intl can't use fall back to English.
+ */
+export function resolveLocale(value: string | null): string {
+  const tag = value || document.documentElement.lang;
+  try {
+    return Intl.getCanonicalLocales(tag)[0] || DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+/**
+ * Add a catalog for a locale, or override messages in an existing one.
+ */
+export function registerMessages(locale: string, messages: Partial<Messages>) {
+  const key = locale.toLowerCase();
+  catalogs.set(key, { ...catalogs.get(key), ...messages });
+}
+
+// "de-AT" looks in de-at, then de, then English
+function lookupChain(locale: string): string[] {
+  const parts = locale.toLowerCase().split(/[-_]/);
+  const chain: string[] = [];
+  for (let i = parts.length; i > 0; i--) {
+    chain.push(parts.slice(0, i).join('-'));
+  }
+  chain.push(DEFAULT_LOCALE);
+  return chain;
+}
+
+/**
+ * Look up a message and fill in its {placeholders}. Plural messages pick
+ * their form from params.count.
+ */
+export function translate(
+  locale: string,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  let message: string | PluralMessage = en[key];
+  for (const tag of lookupChain(locale)) {
+    const found = catalogs.get(tag)?.[key];
+    if (found !== undefined) {
+      message = found;
+      break;
+    }
+  }
+
+  if (typeof message !== 'string') {
+    let category: Intl.LDMLPluralRule = 'other';
+    try {
+      category = new Intl.PluralRules(locale).select(Number(params.count));
+    } catch {
+      // Malformed locale tags fall back to the "other" form
+    }
+    message = message[category] ?? message.other;
+  }
+
+  return message.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
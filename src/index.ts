@@ -1 +1,16 @@
 export { DiscourseComments } from './discourse-comments.js';
+export { DiscourseCommentCount } from './discourse-comment-count.js';
+export { registerMessages } from './i18n.js';
+export type { Messages, MessageKey, PluralMessage } from './i18n.js';
+export type { Reaction } from './reactions.js';
+export type {
+  AuthChangedDetail,
+  DiscourseCommentsEventDetail,
+  DiscourseCommentsEventMap,
+  DiscourseCommentsEventName,
+  ErrorDetail,
+  LikedDetail,
+  LoadedDetail,
+  PostedDetail,
+  ReactedDetail,
+} from './events.js';
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LiveUpdates } from './live.js';
+
+function setHidden(hidden: boolean) {
+  Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+function jsonResponse(body: unknown) {
+  return { ok: true, status: 200, json: async () => body };
+}
+
+describe('LiveUpdates', () => {
+  let live: LiveUpdates | null = null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    live?.stop();
+    live = null;
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    setHidden(false);
+  });
+
+  describe('polling', () => {
+    it('checks on an interval and backs off while nothing changes', async () => {
+      const check = vi.fn().mockResolvedValue(false);
+      live = new LiveUpdates({
+        discourseUrl: 'https://forum.example.com',
+        topicId: 42,
+        mode: 'poll',
+        check,
+        pollInterval: 1000,
+      });
+      live.start();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(check).toHaveBeenCalledTimes(1);
+
+      // Next check waits 1.5x as long
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(check).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(500);
+      expect(check).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns to the base interval once something new turns up', async () => {
+      const check = vi.fn()
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true)
+        .mockResolvedValue(false);
+      live = new LiveUpdates({
+        discourseUrl: 'https://forum.example.com',
+        topicId: 42,
+        mode: 'poll',
+        check,
+        pollInterval: 1000,
+      });
+      live.start();
+
+      await vi.advanceTimersByTimeAsync(1000 + 1500);
+      expect(check).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(check).toHaveBeenCalledTimes(3);
+    });
+
+    it('pauses while the tab is hidden and catches up when visible', async () => {
+      const check = vi.fn().mockResolvedValue(false);
+      live = new LiveUpdates({
+        discourseUrl: 'https://forum.example.com',
+        topicId: 42,
+        mode: 'poll',
+        check,
+        pollInterval: 1000,
+      });
+      live.start();
+
+      setHidden(true);
+      await vi.advanceTimersByTimeAsync(10_000);
+      expect(check).not.toHaveBeenCalled();
+
+      setHidden(false);
+      expect(check).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops checking once stopped', async () => {
+      const check = vi.fn().mockResolvedValue(false);
+      live = new LiveUpdates({
+        discourseUrl: 'https://forum.example.com',
+        topicId: 42,
+        mode: 'poll',
+        check,
+        pollInterval: 1000,
+      });
+      live.start();
+      live.stop();
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(check).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('MessageBus', () => {
+    it('subscribes to the topic channel and checks when it publishes', async () => {
+      let resolveSecondPoll: (value: unknown) => void = () => {};
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(jsonResponse([
+          { channel: '/__status', message_id: -1, data: { '/topic/42': 17 } },
+        ]))
+        .mockImplementationOnce(() => new Promise(resolve => { resolveSecondPoll = resolve; }))
+        .mockImplementation(() => new Promise(() => {}));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const check = vi.fn().mockResolvedValue(true);
+      live = new LiveUpdates({
+        discourseUrl: 'https://forum.example.com/',
+        topicId: 42,
+        headers: { 'User-Api-Key': 'k' },
+        check,
+      });
+      live.start();
+
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toMatch(/^https:\/\/forum\.example\.com\/message-bus\/[0-9a-f]+\/poll$/);
+      expect(init.headers['User-Api-Key']).toBe('k');
+      expect(init.body).toBe('%2Ftopic%2F42=-1');
+      // The second poll continues from the position the status message reported
+      expect(fetchMock.mock.calls[1][1].body).toBe('%2Ftopic%2F42=17');
+      expect(check).not.toHaveBeenCalled();
+
+      resolveSecondPoll(jsonResponse([{ channel: '/topic/42', message_id: 18, data: {} }]));
+      await vi.waitFor(() => expect(check).toHaveBeenCalledTimes(1));
+    });
+
+    it('falls back to polling when MessageBus is unreachable', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const check = vi.fn().mockResolvedValue(false);
+      live = new LiveUpdates({
+        discourseUrl: 'https://forum.example.com',
+        topicId: 42,
+        check,
+        pollInterval: 1000,
+      });
+      live.start();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(check).toHaveBeenCalledTimes(1);
+    });
+  });
+});
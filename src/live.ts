@@ -0,0 +1,216 @@
+/**
+ * Live updates for an open topic.
+ *
+ * Prefers Discourse's MessageBus long-poll channel for the topic, and falls
+ * back to polling with backoff when the forum doesn't allow it (usually
+ * CORS). Either way it stops while the tab is hidden and catches up when the
+ * reader comes back.
+ */
+
+import { fetchJson, isRecord, normalizeBaseUrl } from './utils.js';
+
+export type LiveMode = 'auto' | 'poll';
+
+export interface LiveUpdatesOptions {
+  discourseUrl: string;
+  topicId: number;
+  mode?: LiveMode;
+  headers?: Record<string, string>;
+  // Called whenever the topic may have changed; resolves true if anything new turned up
+  check: () => Promise<boolean>;
+  pollInterval?: number;
+  maxPollInterval?: number;
+}
+
+interface MessageBusMessage {
+  channel: string;
+  message_id: number;
+  data: unknown;
+}
+
+const DEFAULT_POLL_INTERVAL = 30_000;
+const DEFAULT_MAX_POLL_INTERVAL = 5 * 60_000;
+
+function randomClientId(): string {
+  const bytes = window.crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class LiveUpdates {
+  private options: LiveUpdatesOptions;
+  private running: boolean = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private interval: number;
+  private useMessageBus: boolean;
+  private messageBusClientId: string = randomClientId();
+  private lastMessageId: number = -1;
+  private abortController: AbortController | null = null;
+  private longPolling: boolean = false;
+
+  constructor(options: LiveUpdatesOptions) {
+    this.options = options;
+    this.interval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.useMessageBus = (options.mode ?? 'auto') === 'auto';
+  }
+
+  get channel(): string {
+    return `/topic/${this.options.topicId}`;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.resume();
+  }
+
+  stop() {
+    this.running = false;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.pause();
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.hidden) {
+      this.pause();
+      return;
+    }
+
+    // Catch up on anything missed while hidden, then carry on
+    this.options.check().catch(error => console.error('Live update check failed:', error));
+    this.resume();
+  };
+
+  private resume() {
+    if (!this.running || document.hidden || this.timer || this.longPolling) return;
+
+    if (this.useMessageBus) {
+      this.longPoll();
+    } else {
+      this.schedulePoll();
+    }
+  }
+
+  private pause() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+  }
+
+  private schedulePoll() {
+    this.timer = setTimeout(() => this.poll(), this.interval);
+  }
+
+  private async poll() {
+    this.timer = null;
+    const baseInterval = this.options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    const maxInterval = this.options.maxPollInterval ?? DEFAULT_MAX_POLL_INTERVAL;
+
+    try {
+      const found = await this.options.check();
+      // Quiet topics get checked less and less often
+      this.interval = found ? baseInterval : Math.min(this.interval * 1.5, maxInterval);
+    } catch (error) {
+      console.error('Live update check failed:', error);
+      this.interval = Math.min(this.interval * 2, maxInterval);
+    }
+
+    if (this.running && !document.hidden && !this.timer) {
+      this.schedulePoll();
+    }
+  }
+
+  private async longPoll() {
+    this.longPolling = true;
+    try {
+      await this.runLongPoll();
+    } finally {
+      this.longPolling = false;
+    }
+
+    if (this.running && !document.hidden && !this.useMessageBus) {
+      this.schedulePoll();
+    }
+  }
+
+  private async runLongPoll() {
+    while (this.running && !document.hidden && this.useMessageBus) {
+      const controller = new AbortController();
+      this.abortController = controller;
+      const startedAt = Date.now();
+
+      let messages: MessageBusMessage[];
+      try {
+        messages = await this.pollMessageBus(controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        // Most likely CORS - the forum won't talk MessageBus to us, so poll instead
+        console.warn('MessageBus unavailable, falling back to polling:', error);
+        this.useMessageBus = false;
+        return;
+      } finally {
+        if (this.abortController === controller) {
+          this.abortController = null;
+        }
+      }
+
+      const gotStatus = messages.some(message => message.channel === '/__status');
+      const changed = this.handleMessages(messages);
+
+      if (changed) {
+        try {
+          await this.options.check();
+        } catch (error) {
+          console.error('Live update check failed:', error);
+        }
+      } else if (!gotStatus && Date.now() - startedAt < 1000) {
+        // An empty answer straight away means the forum has long polling
+        // disabled; polling on our own schedule is gentler than spinning here
+        this.useMessageBus = false;
+      }
+    }
+  }
+
+  private async pollMessageBus(signal: AbortSignal): Promise<MessageBusMessage[]> {
+    const base = normalizeBaseUrl(this.options.discourseUrl);
+    const body = new URLSearchParams({ [this.channel]: String(this.lastMessageId) });
+
+    const messages = await fetchJson(`${base}/message-bus/${this.messageBusClientId}/poll`, {
+      method: 'POST',
+      headers: {
+        ...this.options.headers,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: body.toString(),
+      signal,
+    });
+    return Array.isArray(messages)
+      ? messages.filter((message): message is MessageBusMessage => isRecord(message) && typeof message.channel === 'string')
+      : [];
+  }
+
+  // Returns true when the topic channel published something
+  private handleMessages(messages: MessageBusMessage[]): boolean {
+    let changed = false;
+
+    for (const message of messages) {
+      if (message.channel === '/__status') {
+        // Subscribing from -1 gets us the channel's current position first
+        const position = (message.data as Record<string, number>)?.[this.channel];
+        if (typeof position === 'number') {
+          this.lastMessageId = position;
+        }
+      } else if (message.channel === this.channel) {
+        this.lastMessageId = message.message_id;
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { applyFormat, renderMarkdown } from './markdown.js';
+
+describe('renderMarkdown', () => {
+  it('wraps text in paragraphs and keeps single newlines as line breaks', () => {
+    expect(renderMarkdown('one\ntwo\n\nthree')).toBe('<p>one<br>two</p>\n<p>three</p>');
+  });
+
+  it('renders bold, italic and inline code', () => {
+    expect(renderMarkdown('**bold** *italic* _also_ `a*b*c`')).toBe(
+      '<p><strong>bold</strong> <em>italic</em> <em>also</em> <code>a*b*c</code></p>'
+    );
+  });
+
+  it('leaves underscores inside words alone', () => {
+    expect(renderMarkdown('snake_case_name')).toBe('<p>snake_case_name</p>');
+  });
+
+  it('renders links with safe protocols only', () => {
+    expect(renderMarkdown('[site](https://example.com)')).toBe(
+      '<p><a href="https://example.com" rel="nofollow noopener">site</a></p>'
+    );
+    expect(renderMarkdown('[x](javascript:alert(1))')).not.toContain('<a');
+  });
+
+  it('escapes HTML in the draft', () => {
+    const html = renderMarkdown('<img src=x onerror=alert(1)>');
+    expect(html).toBe('<p>&lt;img src=x onerror=alert(1)&gt;</p>');
+  });
+
+  it('renders fenced code blocks without formatting their contents', () => {
+    expect(renderMarkdown('```\n**not bold** <b>\n```')).toBe(
+      '<pre><code>**not bold** &lt;b&gt;</code></pre>'
+    );
+  });
+
+  it('renders blockquotes, headings and lists', () => {
+    expect(renderMarkdown('> quoted')).toBe('<blockquote><p>quoted</p></blockquote>');
+    expect(renderMarkdown('## Title')).toBe('<h2>Title</h2>');
+    expect(renderMarkdown('- a\n- b')).toBe('<ul><li>a</li><li>b</li></ul>');
+    expect(renderMarkdown('1. a\n2. b')).toBe('<ol><li>a</li><li>b</li></ol>');
+  });
+
+  it('renders Discourse quote markup like Discourse does', () => {
+    expect(renderMarkdown('[quote="bob, post:2, topic:42"]\nhi\n[/quote]')).toBe(
+      '<aside class="quote"><div class="title">bob:</div><blockquote><p>hi</p></blockquote></aside>'
+    );
+  });
+});
+
+describe('applyFormat', () => {
+  it('wraps the selection in bold markers and keeps it selected', () => {
+    const result = applyFormat({ value: 'say hello', selectionStart: 4, selectionEnd: 9 }, 'bold');
+    expect(result).toEqual({ value: 'say **hello**', selectionStart: 6, selectionEnd: 11 });
+  });
+
+  it('inserts a placeholder when nothing is selected', () => {
+    const result = applyFormat({ value: '', selectionStart: 0, selectionEnd: 0 }, 'italic');
+    expect(result.value).toBe('*emphasized text*');
+    expect(result.value.slice(result.selectionStart, result.selectionEnd)).toBe('emphasized text');
+  });
+
+  it('uses the given placeholders', () => {
+    const placeholders = { bold: 'fett', italic: 'kursiv', link: 'Linktext', code: 'Code', quote: 'Zitat' };
+    const result = applyFormat({ value: '', selectionStart: 0, selectionEnd: 0 }, 'link', placeholders);
+    expect(result.value).toBe('[Linktext](https://)');
+  });
+
+  it('selects the URL placeholder when inserting a link', () => {
+    const result = applyFormat({ value: 'docs', selectionStart: 0, selectionEnd: 4 }, 'link');
+    expect(result.value).toBe('[docs](https://)');
+    expect(result.value.slice(result.selectionStart, result.selectionEnd)).toBe('https://');
+  });
+
+  it('uses a fenced block for multi-line code', () => {
+    const result = applyFormat({ value: 'a\nb', selectionStart: 0, selectionEnd: 3 }, 'code');
+    expect(result.value).toBe('```\na\nb\n```');
+  });
+
+  it('prefixes every selected line for quotes on a new line', () => {
+    const result = applyFormat({ value: 'x one\ntwo', selectionStart: 2, selectionEnd: 9 }, 'quote');
+    expect(result.value).toBe('x \n> one\n> two');
+  });
+});
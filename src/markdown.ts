@@ -0,0 +1,205 @@
+/**
+ * Minimal markdown support for the comment composer.
+ *
+ * renderMarkdown() covers the subset readers actually use in comments so
+ * the preview works offline. Anything fancier (oneboxes, emoji, mentions)
+ * only shows up once Discourse cooks the post.
+ */
+
+import { escapeHtml } from './sanitize.js';
+
+export type FormatKind = 'bold' | 'italic' | 'link' | 'code' | 'quote';
+
+// Text inserted when a toolbar action has nothing selected to wrap
+export type FormatPlaceholders = Record<FormatKind, string>;
+
+export interface TextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const DEFAULT_PLACEHOLDERS: FormatPlaceholders = {
+  bold: 'strong text',
+  italic: 'emphasized text',
+  link: 'link text',
+  code: 'code',
+  quote: 'quote',
+};
+
+const SAFE_URL = /^(https?:\/\/|mailto:|\/|#)/i;
+
+function renderInline(text: string): string {
+  // Pull code spans out first so their contents aren't formatted
+  const codeSpans: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code) => {
+    codeSpans.push(code);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  html = html.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label, url) =>
+    SAFE_URL.test(url) ? `<a href="${url}" rel="nofollow noopener">${label}</a>` : match
+  );
+  html = html.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
+  html = html.replace(/__(.+?)__/g, '<strong>$1</strong>');
+  html = html.replace(/\*(.+?)\*/g, '<em>$1</em>');
+  html = html.replace(/(^|[^\w])_(.+?)_(?![\w])/g, '$1<em>$2</em>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index) => `<code>${codeSpans[Number(index)]}</code>`);
+}
+
+function renderBlocks(lines: string[]): string {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      // Discourse treats single newlines as line breaks
+      blocks.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (/^```/.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^```/.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      i++;
+      continue;
+    }
+
+    const quoteMatch = line.match(/^\[quote(?:="([^",]*)[^"]*")?\]\s*$/);
+    if (quoteMatch) {
+      flushParagraph();
+      const inner: string[] = [];
+      let nesting = 1;
+      i++;
+      while (i < lines.length) {
+        if (/^\[quote(=[^\]]*)?\]\s*$/.test(lines[i])) nesting++;
+        if (/^\[\/quote\]\s*$/.test(lines[i]) && --nesting === 0) break;
+        inner.push(lines[i]);
+        i++;
+      }
+      const title = quoteMatch[1] ? `<div class="title">${escapeHtml(quoteMatch[1])}:</div>` : '';
+      blocks.push(`<aside class="quote">${title}<blockquote>${renderBlocks(inner)}</blockquote></aside>`);
+      i++;
+      continue;
+    }
+
+    if (/^>\s?/.test(line)) {
+      flushParagraph();
+      const inner: string[] = [];
+      while (i < lines.length && /^>\s?/.test(lines[i])) {
+        inner.push(lines[i].replace(/^>\s?/, ''));
+        i++;
+      }
+      blocks.push(`<blockquote>${renderBlocks(inner)}</blockquote>`);
+      continue;
+    }
+
+    const headingMatch = line.match(/^(#{1,6})\s+(.*)$/);
+    if (headingMatch) {
+      flushParagraph();
+      const level = headingMatch[1].length;
+      blocks.push(`<h${level}>${renderInline(headingMatch[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*+]|\d+\.)\s+/.test(line)) {
+      flushParagraph();
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && /^\s*([-*+]|\d+\.)\s+/.test(lines[i])) {
+        items.push(`<li>${renderInline(lines[i].replace(/^\s*([-*+]|\d+\.)\s+/, ''))}</li>`);
+        i++;
+      }
+      const tag = ordered ? 'ol' : 'ul';
+      blocks.push(`<${tag}>${items.join('')}</${tag}>`);
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    i++;
+  }
+
+  flushParagraph();
+  return blocks.join('\n');
+}
+
+/**
+ * Render markdown to HTML. All input is escaped, so the output is safe to
+ * inject without further sanitizing.
+ */
+export function renderMarkdown(raw: string): string {
+  return renderBlocks(raw.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+/**
+ * Apply a toolbar action to the textarea's value and selection, returning
+ * the new value and the range that should be selected afterwards.
+ */
+export function applyFormat(
+  edit: TextEdit,
+  kind: FormatKind,
+  placeholders: FormatPlaceholders = DEFAULT_PLACEHOLDERS
+): TextEdit {
+  const { value, selectionStart, selectionEnd } = edit;
+  const before = value.slice(0, selectionStart);
+  const selected = value.slice(selectionStart, selectionEnd);
+  const after = value.slice(selectionEnd);
+
+  const wrap = (prefix: string, suffix: string, placeholder: string): TextEdit => {
+    const text = selected || placeholder;
+    return {
+      value: before + prefix + text + suffix + after,
+      selectionStart: selectionStart + prefix.length,
+      selectionEnd: selectionStart + prefix.length + text.length,
+    };
+  };
+
+  switch (kind) {
+    case 'bold':
+      return wrap('**', '**', placeholders.bold);
+    case 'italic':
+      return wrap('*', '*', placeholders.italic);
+    case 'code':
+      return selected.includes('\n')
+        ? wrap('```\n', '\n```', '')
+        : wrap('`', '`', placeholders.code);
+    case 'link': {
+      const label = selected || placeholders.link;
+      const url = 'https://';
+      const start = selectionStart + label.length + 3;
+      return {
+        value: `${before}[${label}](${url})${after}`,
+        selectionStart: start,
+        selectionEnd: start + url.length,
+      };
+    }
+    case 'quote': {
+      const text = selected || placeholders.quote;
+      const quoted = text.split('\n').map(line => `> ${line}`).join('\n');
+      // Blockquotes need to start on their own line
+      const lead = before && !before.endsWith('\n') ? '\n' : '';
+      return {
+        value: before + lead + quoted + after,
+        selectionStart: selectionStart + lead.length,
+        selectionEnd: selectionStart + lead.length + quoted.length,
+      };
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RequestError } from 'discourse-api-ts';
+import { getErrorStatus, isRequestError, isTransientError, retryDelay, runMutation, withRetry } from './mutations.js';
+
+function apiError(status: number) {
+  return Object.assign(new Error(`API error (${status}): HTTP ${status}`), { name: 'ApiError', status });
+}
+
+describe('isTransientError', () => {
+  it('reads the status from API errors and plain HTTP errors', () => {
+    expect(getErrorStatus(apiError(422))).toBe(422);
+    expect(getErrorStatus(new Error('HTTP 503'))).toBe(503);
+    expect(getErrorStatus(new Error('Something else'))).toBeNull();
+    expect(getErrorStatus(null)).toBeNull();
+  });
+
+  it('retries rate limits, server errors and network failures', () => {
+    expect(isTransientError(apiError(429))).toBe(true);
+    expect(isTransientError(apiError(502))).toBe(true);
+    expect(isTransientError(new Error('HTTP 500'))).toBe(true);
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(new RequestError('HTTP request failed'))).toBe(true);
+  });
+
+  it('only counts discourse-api-ts request failures as request errors', () => {
+    expect(isRequestError(new RequestError('HTTP request failed'))).toBe(true);
+    expect(isRequestError(Object.assign(new Error('HTTP request failed'), { name: 'RequestError' }))).toBe(false);
+  });
+
+  it('gives up on errors that will not go away', () => {
+    expect(isTransientError(apiError(403))).toBe(false);
+    expect(isTransientError(apiError(422))).toBe(false);
+    expect(isTransientError(new Error('Not authenticated'))).toBe(false);
+  });
+
+  it('backs off exponentially', () => {
+    expect([0, 1, 2].map(attempt => retryDelay(attempt))).toEqual([1000, 2000, 4000]);
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries transient failures until the request succeeds', async () => {
+    vi.useFakeTimers();
+    const request = vi.fn()
+      .mockRejectedValueOnce(apiError(429))
+      .mockRejectedValueOnce(apiError(503))
+      .mockResolvedValue('done');
+
+    const result = withRetry(request);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    await expect(result).resolves.toBe('done');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws the last error once retries run out', async () => {
+    const request = vi.fn().mockRejectedValue(apiError(503));
+
+    await expect(withRetry(request, { retries: 2, baseDelay: 1 })).rejects.toThrow('API error (503)');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('only retries rate limits for requests that must not run twice', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(apiError(429))
+      .mockRejectedValueOnce(apiError(503));
+
+    await expect(withRetry(request, { baseDelay: 1, idempotent: false })).rejects.toThrow('API error (503)');
+    expect(request).toHaveBeenCalledTimes(2);
+
+    const offline = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(withRetry(offline, { baseDelay: 1, idempotent: false })).rejects.toThrow('Failed to fetch');
+    expect(offline).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry other errors', async () => {
+    const request = vi.fn().mockRejectedValue(apiError(422));
+
+    await expect(withRetry(request)).rejects.toThrow('API error (422)');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('runMutation', () => {
+  it('applies the change before the request and keeps it on success', async () => {
+    const steps: string[] = [];
+
+    const result = await runMutation({
+      apply: () => steps.push('apply'),
+      request: async () => {
+        steps.push('request');
+        return 42;
+      },
+      rollback: () => steps.push('rollback'),
+    });
+
+    expect(result).toBe(42);
+    expect(steps).toEqual(['apply', 'request']);
+  });
+
+  it('rolls the change back and rethrows when the request fails', async () => {
+    const steps: string[] = [];
+
+    await expect(runMutation({
+      apply: () => steps.push('apply'),
+      request: () => Promise.reject(apiError(403)),
+      rollback: () => steps.push('rollback'),
+    })).rejects.toThrow('API error (403)');
+
+    expect(steps).toEqual(['apply', 'rollback']);
+  });
+});
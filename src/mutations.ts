@@ -0,0 +1,98 @@
+/**
+ * Optimistic writes.
+ *
+ * Likes, reactions, posts, edits and deletes all go through runMutation():
+ * the change is shown straight away, the request is retried while the
+ * forum is rate limiting or briefly unavailable, and the change is rolled
+ * back if the request fails for good. Requests that must not run twice,
+ * like creating a post, are only retried after a rate limit.
+ */
+
+import { RequestError } from 'discourse-api-ts';
+
+export const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY = 1000;
+
+export interface Mutation<T> {
+  // Show the change before the forum confirms it
+  apply?: () => void;
+  request: () => Promise<T>;
+  // Put things back the way they were before apply()
+  rollback?: () => void;
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelay?: number;
+  // False for requests that must not run twice. A server error or lost
+  // response may come after the forum acted, so only 429s are retried.
+  idempotent?: boolean;
+}
+
+/**
+ * The HTTP status behind an error, from discourse-api-ts's ApiError or the
+ * "HTTP 503" errors our own fetch helpers throw.
+ */
+export function getErrorStatus(error: unknown): number | null {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status;
+
+  const match = error instanceof Error ? /^HTTP (\d{3})\b/.exec(error.message) : null;
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Whether a discourse-api-ts request never reached the forum, e.g. because
+ * the reader is offline.
+ */
+export function isRequestError(error: unknown): boolean {
+  return error instanceof RequestError;
+}
+
+/**
+ * Whether trying again later might work: rate limits, server errors and
+ * requests that never reached the forum.
+ */
+export function isTransientError(error: unknown): boolean {
+  // Our own fetch helpers see network failures as the TypeError fetch rejects with
+  if (error instanceof TypeError || isRequestError(error)) return true;
+
+  const status = getErrorStatus(error);
+  return status === 429 || (status !== null && status >= 500);
+}
+
+export function retryDelay(attempt: number, baseDelay: number = BASE_RETRY_DELAY): number {
+  return baseDelay * 2 ** attempt;
+}
+
+/**
+ * Run a request, retrying transient failures with exponential backoff.
+ * Any other error, or the last transient one, is thrown.
+ */
+export async function withRetry<T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = MAX_RETRIES, baseDelay = BASE_RETRY_DELAY, idempotent = true } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const retryable = idempotent ? isTransientError(error) : getErrorStatus(error) === 429;
+      if (attempt >= retries || !retryable) throw error;
+      await new Promise(resolve => setTimeout(resolve, retryDelay(attempt, baseDelay)));
+    }
+  }
+}
+
+/**
+ * Apply a change optimistically and send it, rolling the change back if
+ * the request fails. The request's error is rethrown after the rollback.
+ */
+export async function runMutation<T>(mutation: Mutation<T>, options?: RetryOptions): Promise<T> {
+  mutation.apply?.();
+  try {
+    return await withRetry(mutation.request, options);
+  } catch (error) {
+    mutation.rollback?.();
+    throw error;
+  }
+}
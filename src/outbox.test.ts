@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import 'fake-indexeddb/auto';
+import { claimQueued, clearOutbox, flushOutbox, listQueued, queuePost } from './outbox.js';
+
+const forum = 'https://forum.example.com';
+const headers = { 'User-Api-Key': 'test-api-key' };
+
+function jsonResponse(status: number, body: unknown = {}) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+function createdPost(id: number) {
+  return { id, post_number: id, topic_id: 42, username: 'me', cooked: `<p>Post ${id}</p>` };
+}
+
+// Answers the topic lookups made before sending an entry again, and
+// everything else with send()
+function topicFetch(posts: Array<{ id: number; yours?: boolean; raw?: string; created_at?: string }>, send: () => unknown = () => jsonResponse(200, createdPost(10))) {
+  return vi.fn(async (url: string) => {
+    if (url.endsWith('/t/42.json')) return jsonResponse(200, { post_stream: { stream: posts.map(post => post.id) } });
+    if (url.includes('/t/42/posts.json')) return jsonResponse(200, { post_stream: { posts } });
+    return send();
+  });
+}
+
+function postsSent(fetchMock: ReturnType<typeof vi.fn>): unknown[] {
+  return fetchMock.mock.calls.filter(([url]) => url.endsWith('/posts.json')).map(([, init]) => JSON.parse(init.body));
+}
+
+// Captured before any test fakes it
+const realSetTimeout = globalThis.setTimeout;
+
+// Step through the retry backoff, letting IndexedDB work in between
+async function settle(flush: Promise<void>) {
+  let settled = false;
+  flush.finally(() => { settled = true; }).catch(() => {});
+  while (!settled) {
+    await new Promise(resolve => realSetTimeout(resolve, 0));
+    await vi.advanceTimersByTimeAsync(1000);
+  }
+  await flush;
+}
+
+// fake-indexeddb schedules its work with setImmediate, so only the retry timers are faked
+describe('outbox', () => {
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    await clearOutbox(forum);
+    await clearOutbox('https://other.example.com');
+  });
+
+  it('keeps queued posts per forum and topic, oldest first', async () => {
+    const first = await queuePost({ discourseUrl: forum, topicId: 42, raw: 'First', replyToPostNumber: null });
+    await queuePost({ discourseUrl: `${forum}/`, topicId: 43, raw: 'Elsewhere', replyToPostNumber: null });
+    await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Second', replyToPostNumber: 2 });
+    await queuePost({ discourseUrl: 'https://other.example.com', topicId: 42, raw: 'Other forum', replyToPostNumber: null });
+
+    expect((await listQueued(forum, 42)).map(entry => entry.raw)).toEqual(['First', 'Second']);
+    expect((await listQueued(forum)).map(entry => entry.raw)).toEqual(['First', 'Elsewhere', 'Second']);
+    expect(first.nonce).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('sends queued posts in order with their nonce and empties the outbox', async () => {
+    const first = await queuePost({ discourseUrl: forum, topicId: 42, raw: 'First', replyToPostNumber: null });
+    const second = await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Second', replyToPostNumber: 1 });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(200, createdPost(10)))
+      .mockResolvedValueOnce(jsonResponse(200, createdPost(11)));
+    vi.stubGlobal('fetch', fetchMock);
+    const onSent = vi.fn();
+
+    await flushOutbox(forum, headers, { onSent, onFailed: vi.fn() });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://forum.example.com/posts.json');
+    expect(init.headers).toEqual({ 'User-Api-Key': 'test-api-key', 'Content-Type': 'application/json' });
+    expect(JSON.parse(init.body)).toEqual({ raw: 'First', topic_id: 42, nonce: first.nonce });
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      raw: 'Second', topic_id: 42, nonce: second.nonce, reply_to_post_number: 1,
+    });
+    expect(onSent.mock.calls.map(([entry, created]) => [entry.raw, created.id])).toEqual([['First', 10], ['Second', 11]]);
+    expect(await listQueued(forum)).toEqual([]);
+  });
+
+  it('stops at a network failure and keeps the rest in order', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    await queuePost({ discourseUrl: forum, topicId: 42, raw: 'First', replyToPostNumber: null });
+    await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Second', replyToPostNumber: null });
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    vi.stubGlobal('fetch', fetchMock);
+    const onSent = vi.fn();
+
+    const flush = flushOutbox(forum, headers, { onSent, onFailed: vi.fn() });
+    await settle(flush);
+
+    // The first entry was tried once, the second never
+    expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).raw)).toEqual(['First']);
+    expect(onSent).not.toHaveBeenCalled();
+    expect((await listQueued(forum)).map(entry => entry.raw)).toEqual(['First', 'Second']);
+  });
+
+  it('keeps an entry for the next flush after a server error', async () => {
+    const entry = await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Once', replyToPostNumber: null });
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(502))
+      .mockResolvedValueOnce(jsonResponse(200, { post_stream: { stream: [1, 2] } }))
+      .mockResolvedValueOnce(jsonResponse(200, { post_stream: { posts: [
+        { id: 1, yours: false, raw: 'Once', created_at: new Date().toISOString() },
+        { id: 2, yours: true, raw: 'Something else', created_at: new Date().toISOString() },
+      ] } }))
+      .mockResolvedValueOnce(jsonResponse(200, createdPost(10)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await flushOutbox(forum, headers, { onSent: vi.fn(), onFailed: vi.fn() });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect((await listQueued(forum)).map(queued => queued.raw)).toEqual(['Once']);
+
+    await flushOutbox(forum, headers, { onSent: vi.fn(), onFailed: vi.fn() });
+    // The server error may have come after the post was saved, so the topic is checked first
+    expect(fetchMock.mock.calls[1][0]).toBe('https://forum.example.com/t/42.json');
+    const lookup = new URL(fetchMock.mock.calls[2][0]);
+    expect(lookup.pathname).toBe('/t/42/posts.json');
+    expect(lookup.searchParams.getAll('post_ids[]')).toEqual(['1', '2']);
+    expect(lookup.searchParams.get('include_raw')).toBe('1');
+    expect(fetchMock.mock.calls[2][1].headers).toEqual(headers);
+    expect(postsSent(fetchMock).map(body => (body as { nonce: string }).nonce)).toEqual([entry.nonce, entry.nonce]);
+    expect(await listQueued(forum)).toEqual([]);
+  });
+
+  it('counts an entry as sent when an earlier send got through', async () => {
+    const entry = await queuePost({
+      discourseUrl: forum, topicId: 42, raw: 'Saved after all', replyToPostNumber: null, sentAt: Date.now(),
+    });
+    const fetchMock = topicFetch([
+      { id: 9, yours: true, raw: 'Saved after all', created_at: new Date(entry.queuedAt - 600_000).toISOString() },
+      { id: 10, yours: true, raw: 'Saved after all\n', created_at: new Date().toISOString() },
+    ]);
+    vi.stubGlobal('fetch', fetchMock);
+    const onSent = vi.fn();
+
+    await flushOutbox(forum, headers, { onSent, onFailed: vi.fn() });
+
+    expect(postsSent(fetchMock)).toEqual([]);
+    expect(onSent.mock.calls.map(([sent, created]) => [sent.raw, created.id])).toEqual([['Saved after all', 10]]);
+    expect(await listQueued(forum)).toEqual([]);
+  });
+
+  it('sends entries that were never sent without checking the topic', async () => {
+    await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Fresh', replyToPostNumber: null });
+    const fetchMock = topicFetch([]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    await flushOutbox(forum, headers, { onSent: vi.fn(), onFailed: vi.fn() });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(postsSent(fetchMock)).toHaveLength(1);
+  });
+
+  it('keeps its claim for as long as the send takes', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+    const entry = await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Slow', replyToPostNumber: null });
+    let answer: (response: unknown) => void = () => {};
+    const fetchMock = vi.fn(() => new Promise(resolve => { answer = resolve; }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const flush = flushOutbox(forum, headers, { onSent: vi.fn(), onFailed: vi.fn() });
+    while (fetchMock.mock.calls.length === 0) {
+      await new Promise(resolve => realSetTimeout(resolve, 0));
+    }
+    await vi.advanceTimersByTimeAsync(90_000);
+    await new Promise(resolve => realSetTimeout(resolve, 10));
+
+    expect(await claimQueued(entry.seq)).toBe(false);
+
+    answer(jsonResponse(200, createdPost(10)));
+    await flush;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await listQueued(forum)).toEqual([]);
+  });
+
+  it('leaves entries another tab is sending to that tab', async () => {
+    const first = await queuePost({ discourseUrl: forum, topicId: 42, raw: 'First', replyToPostNumber: null });
+    await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Second', replyToPostNumber: null });
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, createdPost(10)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await claimQueued(first.seq)).toBe(true);
+    expect(await claimQueued(first.seq)).toBe(false);
+    await flushOutbox(forum, headers, { onSent: vi.fn(), onFailed: vi.fn() });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect((await listQueued(forum)).map(entry => entry.raw)).toEqual(['First', 'Second']);
+  });
+
+  it('takes over entries whose claim has run out', async () => {
+    const entry = await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Abandoned', replyToPostNumber: null });
+    const fetchMock = topicFetch([]);
+    vi.stubGlobal('fetch', fetchMock);
+
+    await claimQueued(entry.seq, Date.now() - 120_000);
+    await flushOutbox(forum, headers, { onSent: vi.fn(), onFailed: vi.fn() });
+
+    // The abandoned send may have got through, so the topic is checked first
+    expect(fetchMock.mock.calls[0][0]).toBe('https://forum.example.com/t/42.json');
+    expect(postsSent(fetchMock)).toHaveLength(1);
+    expect(await listQueued(forum)).toEqual([]);
+  });
+
+  it('drops refused posts and carries on with the next', async () => {
+    await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Refused', replyToPostNumber: null });
+    await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Fine', replyToPostNumber: null });
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(jsonResponse(422))
+      .mockResolvedValueOnce(jsonResponse(200, createdPost(11))));
+    const onSent = vi.fn();
+    const onFailed = vi.fn();
+
+    await flushOutbox(forum, headers, { onSent, onFailed });
+
+    expect(onFailed.mock.calls[0][0].raw).toBe('Refused');
+    expect(onFailed.mock.calls[0][1].message).toBe('HTTP 422');
+    expect(onSent.mock.calls[0][0].raw).toBe('Fine');
+    expect(await listQueued(forum)).toEqual([]);
+  });
+
+  it('runs one flush at a time per forum', async () => {
+    await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Once', replyToPostNumber: null });
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, createdPost(10)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await Promise.all([
+      flushOutbox(forum, headers, { onSent: vi.fn(), onFailed: vi.fn() }),
+      flushOutbox(forum, headers, { onSent: vi.fn(), onFailed: vi.fn() }),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('tells everyone who asked for a running flush how it went', async () => {
+    await queuePost({ discourseUrl: forum, topicId: 42, raw: 'Sent', replyToPostNumber: null });
+    await queuePost({ discourseUrl: forum, topicId: 43, raw: 'Refused', replyToPostNumber: null });
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(jsonResponse(200, createdPost(10)))
+      .mockResolvedValueOnce(jsonResponse(422)));
+    const first = { onSent: vi.fn(), onFailed: vi.fn() };
+    const second = { onSent: vi.fn(), onFailed: vi.fn() };
+
+    await Promise.all([flushOutbox(forum, headers, first), flushOutbox(forum, headers, second)]);
+
+    for (const handlers of [first, second]) {
+      expect(handlers.onSent.mock.calls.map(([entry]) => entry.raw)).toEqual(['Sent']);
+      expect(handlers.onFailed.mock.calls.map(([entry]) => entry.raw)).toEqual(['Refused']);
+    }
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Offline outbox.
+ *
+ * Comments written without a connection wait in IndexedDB and are sent in
+ * the order they were written once the browser is back online. Before an
+ * entry is sent it is claimed in the same IndexedDB transaction that checks
+ * nobody else has, so two tabs flushing at once don't both send it.
+ *
+ * Discourse doesn't use the nonce to spot repeats, so an entry whose
+ * earlier send may have reached the forum is looked for in the topic
+ * first, and counts as sent if the reader's post is already there.
+ */
+
+import type { CreatePostResponse } from 'discourse-api-ts';
+import { createNonce } from './auth.js';
+import { isTransientError, withRetry } from './mutations.js';
+import { fetchJson, isRecord, normalizeBaseUrl } from './utils.js';
+
+const DB_NAME = 'discourse-comments-outbox';
+const DB_VERSION = 1;
+const STORE = 'posts';
+
+// How long a claim keeps other tabs away. A tab that closes mid-send
+// leaves its claim behind, so it has to run out eventually.
+const CLAIM_DURATION = 60_000;
+// A send that takes longer keeps its claim by renewing it this often
+const CLAIM_RENEWAL = 15_000;
+
+// How far back in the topic to look for a post an earlier send created
+const RECENT_POSTS = 20;
+// Allows for the forum's clock being behind ours
+const CLOCK_SLACK = 5 * 60_000;
+
+export interface OutboxEntry {
+  // Assigned by IndexedDB in the order entries are queued
+  seq: number;
+  nonce: string;
+  discourseUrl: string;
+  topicId: number;
+  raw: string;
+  replyToPostNumber: number | null;
+  queuedAt: number;
+  // Set while a tab is sending the entry
+  claimedUntil?: number;
+  // When a send last went out. The forum may have saved the post even if
+  // no answer came back.
+  sentAt?: number;
+}
+
+export type NewOutboxEntry = Omit<OutboxEntry, 'seq' | 'nonce' | 'queuedAt' | 'claimedUntil'>;
+
+export interface FlushHandlers {
+  onSent: (entry: OutboxEntry, created: CreatePostResponse) => void;
+  // The forum refused the post for good, so it has left the outbox
+  onFailed: (entry: OutboxEntry, error: unknown) => void;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+interface Flush {
+  promise: Promise<void>;
+  // Every element that asked for the flush hears how each entry went
+  handlers: Set<FlushHandlers>;
+}
+
+// One flush per forum at a time, however many elements ask for it
+const flushes: Map<string, Flush> = new Map();
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOutbox(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Private browsing can refuse IndexedDB; let the next call try again
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openOutbox();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+export async function queuePost(post: NewOutboxEntry, now: number = Date.now()): Promise<OutboxEntry> {
+  const entry = {
+    ...post,
+    discourseUrl: normalizeBaseUrl(post.discourseUrl),
+    nonce: createNonce(),
+    queuedAt: now,
+  };
+  const seq = await withStore('readwrite', store => store.add(entry));
+  return { ...entry, seq: Number(seq) };
+}
+
+/**
+ * The entries waiting for a forum, oldest first, optionally for one topic.
+ */
+export async function listQueued(discourseUrl: string, topicId?: number): Promise<OutboxEntry[]> {
+  const forum = normalizeBaseUrl(discourseUrl);
+  const entries: OutboxEntry[] = await withStore('readonly', store => store.getAll());
+  return entries.filter(entry =>
+    entry.discourseUrl === forum && (topicId === undefined || entry.topicId === topicId)
+  );
+}
+
+export async function removeQueued(seq: number): Promise<void> {
+  await withStore('readwrite', store => store.delete(seq));
+}
+
+// Read and rewrite an entry in one transaction, so no other tab gets in
+// between. Resolves whether the entry was rewritten.
+async function updateQueued(seq: number, update: (entry: OutboxEntry) => OutboxEntry | null): Promise<boolean> {
+  const db = await openOutbox();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    let updated = false;
+    const request = store.get(seq);
+    request.onsuccess = () => {
+      const next = request.result ? update(request.result) : null;
+      if (next) {
+        store.put(next);
+        updated = true;
+      }
+    };
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Mark an entry as being sent by this tab. Resolves false when it has
+ * already been sent, or another tab is sending it.
+ */
+export function claimQueued(seq: number, now: number = Date.now()): Promise<boolean> {
+  return updateQueued(seq, entry =>
+    (entry.claimedUntil ?? 0) > now ? null : { ...entry, claimedUntil: now + CLAIM_DURATION, sentAt: now }
+  );
+}
+
+// Keep renewing a claim until the returned function is called
+function holdClaim(seq: number): () => void {
+  const timer = setInterval(() => {
+    updateQueued(seq, entry => ({ ...entry, claimedUntil: Date.now() + CLAIM_DURATION }))
+      .catch(error => console.warn('Failed to renew outbox claim:', error));
+  }, CLAIM_RENEWAL);
+  return () => clearInterval(timer);
+}
+
+async function releaseQueued(seq: number): Promise<void> {
+  await updateQueued(seq, entry => ({ ...entry, claimedUntil: undefined }));
+}
+
+/**
+ * Drop everything queued for a forum, e.g. when the reader logs out and
+ * the next person to log in shouldn't post their comments.
+ */
+export async function clearOutbox(discourseUrl: string): Promise<void> {
+  for (const entry of await listQueued(discourseUrl)) {
+    await removeQueued(entry.seq);
+  }
+}
+
+export async function sendQueuedPost(entry: OutboxEntry, headers: Record<string, string>): Promise<CreatePostResponse> {
+  const body: Record<string, unknown> = {
+    raw: entry.raw,
+    topic_id: entry.topicId,
+    nonce: entry.nonce,
+  };
+  if (entry.replyToPostNumber !== null) {
+    body.reply_to_post_number = entry.replyToPostNumber;
+  }
+
+  const data = await fetchJson(`${entry.discourseUrl}/posts.json`, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!isRecord(data) || typeof data.id !== 'number') {
+    throw new Error('No post in response');
+  }
+  return data as unknown as CreatePostResponse;
+}
+
+// The post an earlier send of this entry created, if the topic has one:
+// among the newest posts, the reader's, with the same text, and not older
+// than that send
+async function findSentPost(entry: OutboxEntry, headers: Record<string, string>): Promise<CreatePostResponse | null> {
+  if (entry.sentAt === undefined) return null;
+
+  const topic = await fetchJson(`${entry.discourseUrl}/t/${entry.topicId}.json`, { headers });
+  const stream = isRecord(topic) && isRecord(topic.post_stream) && Array.isArray(topic.post_stream.stream)
+    ? topic.post_stream.stream
+    : [];
+  const recent = stream.slice(-RECENT_POSTS);
+  if (recent.length === 0) return null;
+
+  const params = new URLSearchParams({ include_raw: '1' });
+  recent.forEach(id => params.append('post_ids[]', String(id)));
+  const data = await fetchJson(`${entry.discourseUrl}/t/${entry.topicId}/posts.json?${params}`, { headers });
+  const posts = isRecord(data) && isRecord(data.post_stream) && Array.isArray(data.post_stream.posts)
+    ? data.post_stream.posts
+    : [];
+
+  const raw = entry.raw.trim();
+  const since = entry.sentAt - CLOCK_SLACK;
+  const found = posts.find(post =>
+    isRecord(post)
+    && typeof post.id === 'number'
+    && post.yours === true
+    && typeof post.raw === 'string' && post.raw.trim() === raw
+    && Date.parse(String(post.created_at)) >= since
+  );
+  return found ? found as unknown as CreatePostResponse : null;
+}
+
+// Send a claimed entry unless an earlier send already got through,
+// holding the claim for as long as that takes
+async function sendEntry(entry: OutboxEntry, headers: Record<string, string>): Promise<CreatePostResponse> {
+  const stopRenewing = holdClaim(entry.seq);
+  try {
+    // Creating a post isn't safe to repeat, so only rate limits are retried here
+    return await findSentPost(entry, headers)
+      ?? await withRetry(() => sendQueuedPost(entry, headers), { idempotent: false });
+  } finally {
+    stopRenewing();
+  }
+}
+
+/**
+ * Send a forum's queued posts in order. A transient failure stops the
+ * flush and keeps that entry and everything after it for the next one.
+ * Entries another tab is sending are left to it.
+ */
+export function flushOutbox(
+  discourseUrl: string,
+  headers: Record<string, string>,
+  handlers: FlushHandlers
+): Promise<void> {
+  const forum = normalizeBaseUrl(discourseUrl);
+  const running = flushes.get(forum);
+  if (running) {
+    running.handlers.add(handlers);
+    return running.promise;
+  }
+
+  const subscribers = new Set([handlers]);
+  const promise = (async () => {
+    for (const entry of await listQueued(forum)) {
+      // Another tab is working through the queue; sending on would break the order
+      if (!await claimQueued(entry.seq)) return;
+
+      let created: CreatePostResponse;
+      try {
+        created = await sendEntry(entry, headers);
+      } catch (error) {
+        if (isTransientError(error)) {
+          await releaseQueued(entry.seq);
+          return;
+        }
+        await removeQueued(entry.seq);
+        subscribers.forEach(subscriber => subscriber.onFailed(entry, error));
+        continue;
+      }
+      await removeQueued(entry.seq);
+      subscribers.forEach(subscriber => subscriber.onSent(entry, created));
+    }
+  })().finally(() => flushes.delete(forum));
+
+  flushes.set(forum, { promise, handlers: subscribers });
+  return promise;
+}
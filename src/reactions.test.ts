@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { emojiUrl, getReactionState, getValidReactions, parseReactionList, predictToggle, toggleReaction } from './reactions.js';
+
+function jsonResponse(status: number, body: unknown = {}) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body };
+}
+
+describe('getReactionState', () => {
+  it('returns null for posts from forums without the plugin', () => {
+    expect(getReactionState({ id: 1, like_count: 2 })).toBeNull();
+  });
+
+  it('reads reaction counts and the reader\'s reaction', () => {
+    const state = getReactionState({
+      reactions: [{ id: 'heart', type: 'emoji', count: 2 }, { id: '+1', type: 'emoji', count: '1' }],
+      current_user_reaction: { id: '+1', type: 'emoji', can_undo: false },
+    });
+
+    expect(state).toEqual({
+      reactions: [{ id: 'heart', type: 'emoji', count: 2 }, { id: '+1', type: 'emoji', count: 1 }],
+      current_user_reaction: { id: '+1', type: 'emoji', can_undo: false },
+    });
+  });
+
+  it('drops reactions with ids that are not emoji names', () => {
+    const state = getReactionState({
+      reactions: [{ id: '"><img src=x>', count: 1 }, { id: 'wave:t3', count: 1 }],
+      current_user_reaction: { id: '../../admin' },
+    });
+
+    expect(state?.reactions.map(reaction => reaction.id)).toEqual(['wave:t3']);
+    expect(state?.current_user_reaction).toBeNull();
+  });
+});
+
+describe('reaction lists', () => {
+  it('reads the topic\'s enabled reactions', () => {
+    expect(getValidReactions({ valid_reactions: ['heart', 'tada', '<b>'] })).toEqual(['heart', 'tada']);
+    expect(getValidReactions({})).toEqual([]);
+  });
+
+  it('parses the reactions attribute', () => {
+    expect(parseReactionList('heart, +1 ,:tada:,,bad name')).toEqual(['heart', '+1', 'tada']);
+    expect(parseReactionList('')).toEqual([]);
+    expect(parseReactionList(null)).toEqual([]);
+  });
+});
+
+describe('emojiUrl', () => {
+  it('points at the forum\'s emoji images', () => {
+    expect(emojiUrl('https://forum.example.com/', 'heart'))
+      .toBe('https://forum.example.com/images/emoji/twitter/heart.png');
+    expect(emojiUrl('https://forum.example.com', '+1'))
+      .toBe('https://forum.example.com/images/emoji/twitter/%2B1.png');
+  });
+
+  it('maps skin tones to their folder', () => {
+    expect(emojiUrl('https://forum.example.com', 'wave:t3'))
+      .toBe('https://forum.example.com/images/emoji/twitter/wave/3.png');
+  });
+});
+
+describe('predictToggle', () => {
+  const state = {
+    reactions: [{ id: 'heart', type: 'emoji', count: 2 }, { id: '+1', type: 'emoji', count: 1 }],
+    current_user_reaction: { id: '+1', type: 'emoji', can_undo: true },
+  };
+
+  it('removes the reader\'s reaction when it is toggled again', () => {
+    expect(predictToggle(state, '+1')).toEqual({
+      reactions: [{ id: 'heart', type: 'emoji', count: 2 }],
+      current_user_reaction: null,
+    });
+  });
+
+  it('replaces the reader\'s reaction with a new one', () => {
+    expect(predictToggle(state, 'tada')).toEqual({
+      reactions: [{ id: 'heart', type: 'emoji', count: 2 }, { id: 'tada', type: 'emoji', count: 1 }],
+      current_user_reaction: { id: 'tada', type: 'emoji', can_undo: true },
+    });
+  });
+
+  it('adds to an existing count', () => {
+    const predicted = predictToggle({ ...state, current_user_reaction: null }, 'heart');
+
+    expect(predicted.reactions[0]).toEqual({ id: 'heart', type: 'emoji', count: 3 });
+    expect(state.reactions[0].count).toBe(2);
+  });
+});
+
+describe('toggleReaction', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('toggles the reaction and returns the post\'s new state', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, {
+      id: 7,
+      reactions: [{ id: 'tada', type: 'emoji', count: 1 }],
+      current_user_reaction: { id: 'tada', type: 'emoji', can_undo: true },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const state = await toggleReaction('https://forum.example.com', 7, 'tada', { 'User-Api-Key': 'key' });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://forum.example.com/discourse-reactions/posts/7/custom-reactions/tada/toggle.json',
+      { method: 'PUT', headers: { 'User-Api-Key': 'key' } }
+    );
+    expect(state.current_user_reaction?.id).toBe('tada');
+    expect(state.reactions).toEqual([{ id: 'tada', type: 'emoji', count: 1 }]);
+  });
+
+  it('throws when the forum refuses', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(403)));
+
+    await expect(toggleReaction('https://forum.example.com', 7, 'tada', {})).rejects.toThrow('HTTP 403');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Emoji reactions from the discourse-reactions plugin.
+ *
+ * Forums running the plugin send each post's reaction counts and the
+ * reader's own reaction along with the post, and list the enabled
+ * reactions on the topic. Forums without it send none of this, which is
+ * how the component knows to fall back to the plain heart like.
+ */
+
+import { fetchJson, isRecord, normalizeBaseUrl } from './utils.js';
+
+export interface Reaction {
+  id: string;
+  type: string;
+  count: number;
+}
+
+export interface UserReaction {
+  id: string;
+  type: string;
+  // false once the plugin's undo window has passed
+  can_undo: boolean;
+}
+
+export interface ReactionState {
+  reactions: Reaction[];
+  current_user_reaction: UserReaction | null;
+}
+
+// Emoji names as Discourse writes them, e.g. "heart", "+1", "wave:t3"
+const REACTION_ID = /^[\w+-]+(?::t[1-6])?$/;
+
+const EMOJI_SET = 'twitter';
+
+export function isReactionId(value: unknown): value is string {
+  return typeof value === 'string' && REACTION_ID.test(value);
+}
+
+/**
+ * Read the reaction fields off a post, or return null when the forum
+ * doesn't have the plugin.
+ */
+export function getReactionState(post: object): ReactionState | null {
+  const { reactions, current_user_reaction: current } = post as Partial<Record<keyof ReactionState, unknown>>;
+  if (!Array.isArray(reactions)) return null;
+
+  const valid = reactions
+    .filter(reaction => isReactionId(reaction?.id))
+    .map(reaction => ({
+      id: reaction.id,
+      type: String(reaction.type || 'emoji'),
+      count: Number(reaction.count) || 0,
+    }));
+
+  const userReaction = current as Partial<UserReaction> | null | undefined;
+  return {
+    reactions: valid,
+    current_user_reaction: isReactionId(userReaction?.id)
+      ? { id: userReaction.id, type: String(userReaction.type || 'emoji'), can_undo: userReaction.can_undo !== false }
+      : null,
+  };
+}
+
+/**
+ * The reactions a forum has enabled, from the topic's valid_reactions.
+ * Returns an empty list when the topic doesn't say.
+ */
+export function getValidReactions(topic: object): string[] {
+  const { valid_reactions: valid } = topic as { valid_reactions?: unknown };
+  return Array.isArray(valid) ? valid.filter(isReactionId) : [];
+}
+
+export function parseReactionList(value: string | null): string[] {
+  if (!value) return [];
+  return value.split(',').map(name => name.trim().replace(/^:|:$/g, '')).filter(isReactionId);
+}
+
+export function emojiUrl(discourseUrl: string, reactionId: string): string {
+  const base = normalizeBaseUrl(discourseUrl);
+  // Skin tones live in a folder per emoji: "wave:t3" is wave/3.png
+  const path = reactionId.replace(/:t(\d)$/, '/$1').split('/').map(encodeURIComponent).join('/');
+  return `${base}/images/emoji/${EMOJI_SET}/${path}.png`;
+}
+
+/**
+ * Work out what a toggle will do, so it can be shown before the forum
+ * answers: the same reaction again removes it, another one replaces it.
+ */
+export function predictToggle(state: ReactionState, reactionId: string): ReactionState {
+  const current = state.current_user_reaction;
+  const removing = current?.id === reactionId;
+  const reactions = state.reactions.map(reaction => ({ ...reaction }));
+
+  if (current) {
+    const old = reactions.find(reaction => reaction.id === current.id);
+    if (old) old.count -= 1;
+  }
+  if (!removing) {
+    const picked = reactions.find(reaction => reaction.id === reactionId);
+    if (picked) {
+      picked.count += 1;
+    } else {
+      reactions.push({ id: reactionId, type: 'emoji', count: 1 });
+    }
+  }
+
+  return {
+    reactions: reactions.filter(reaction => reaction.count > 0),
+    current_user_reaction: removing ? null : { id: reactionId, type: 'emoji', can_undo: true },
+  };
+}
+
+/**
+ * Toggle the reader's reaction on a post. Picking a different reaction
+ * replaces the current one. Returns the post's updated reaction state.
+ */
+export async function toggleReaction(
+  discourseUrl: string,
+  postId: number,
+  reactionId: string,
+  headers: Record<string, string>
+): Promise<ReactionState> {
+  const base = normalizeBaseUrl(discourseUrl);
+  const data = await fetchJson(
+    `${base}/discourse-reactions/posts/${postId}/custom-reactions/${encodeURIComponent(reactionId)}/toggle.json`,
+    { method: 'PUT', headers }
+  );
+
+  const state = isRecord(data) ? getReactionState(data) : null;
+  if (!state) {
+    throw new Error('No reactions in response');
+  }
+  return state;
+}
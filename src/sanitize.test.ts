@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { escapeHtml, sanitizeHtml } from './sanitize.js';
+
+describe('escapeHtml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeHtml(`<script>alert("x")</script> & 'y'`)).toBe(
+      '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;y&#39;'
+    );
+  });
+});
+
+describe('sanitizeHtml', () => {
+  it('keeps ordinary cooked markup', () => {
+    const html = '<p>Hello <strong>world</strong> <a href="https://example.com">link</a></p>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('removes script and style elements with their contents', () => {
+    expect(sanitizeHtml('<p>a</p><script>alert(1)</script><style>p{}</style>')).toBe('<p>a</p>');
+  });
+
+  it('removes event handler attributes', () => {
+    expect(sanitizeHtml('<img src="https://x.test/a.png" onerror="alert(1)">')).toBe(
+      '<img src="https://x.test/a.png">'
+    );
+    expect(sanitizeHtml('<p onclick="alert(1)" onmouseover="alert(2)">hi</p>')).toBe('<p>hi</p>');
+  });
+
+  it('drops javascript: and data: URLs', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href=" JaVaScRiPt:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href="jav&#x09;ascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<img src="data:image/svg+xml,<svg onload=alert(1)>">')).toBe('<img>');
+  });
+
+  it('drops svg, iframes, forms and other active content', () => {
+    expect(sanitizeHtml('<svg onload="alert(1)"><circle/></svg>')).toBe('');
+    expect(sanitizeHtml('<iframe src="https://evil.test"></iframe>')).toBe('');
+    expect(sanitizeHtml('<form action="https://evil.test"><input name="x"></form>')).toBe('');
+    expect(sanitizeHtml('<object data="x"></object><embed src="x">')).toBe('');
+    expect(sanitizeHtml('<math><mi xlink:href="javascript:alert(1)">x</mi></math>')).toBe('');
+  });
+
+  it('unwraps unknown elements but keeps their text', () => {
+    expect(sanitizeHtml('<marquee><b>hi</b></marquee>')).toBe('<b>hi</b>');
+  });
+
+  it('strips ids and inline styles that could clobber or overlay the widget', () => {
+    expect(sanitizeHtml('<div id="submit-comment" style="position:fixed">x</div>')).toBe('<div>x</div>');
+  });
+
+  it('removes HTML comments', () => {
+    expect(sanitizeHtml('<p>a<!-- <script>alert(1)</script> --></p>')).toBe('<p>a</p>');
+  });
+
+  it('forces rel=noopener on links that open new windows', () => {
+    expect(sanitizeHtml('<a href="https://x.test" target="_blank" rel="opener">x</a>')).toBe(
+      '<a href="https://x.test" target="_blank" rel="noopener noreferrer">x</a>'
+    );
+  });
+
+  it('resolves relative URLs against the forum', () => {
+    expect(sanitizeHtml('<a href="/u/alice">@alice</a>', 'https://forum.example.com')).toBe(
+      '<a href="https://forum.example.com/u/alice">@alice</a>'
+    );
+  });
+
+  it('keeps Discourse emoji images', () => {
+    const html = '<img src="/images/emoji/twitter/smile.png?v=12" title=":smile:" class="emoji" alt=":smile:" loading="lazy" width="20" height="20">';
+    expect(sanitizeHtml(html, 'https://forum.example.com')).toBe(
+      '<img src="https://forum.example.com/images/emoji/twitter/smile.png?v=12" title=":smile:" class="emoji" alt=":smile:" loading="lazy" width="20" height="20">'
+    );
+  });
+
+  it('keeps code blocks and their language classes', () => {
+    const html = '<pre><code class="lang-js">if (a &lt; b) {}</code></pre>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('keeps oneboxes and quotes', () => {
+    const onebox = '<aside class="onebox allowlistedgeneric" data-onebox-src="https://example.com">'
+      + '<header class="source"><a href="https://example.com" target="_blank" rel="noopener noreferrer">example.com</a></header>'
+      + '<article class="onebox-body"><h3><a href="https://example.com">Title</a></h3><p>Body</p></article>'
+      + '</aside>';
+    expect(sanitizeHtml(onebox)).toBe(onebox);
+
+    const quote = '<aside class="quote" data-post="2" data-topic="42"><div class="title">bob:</div><blockquote><p>hi</p></blockquote></aside>';
+    expect(sanitizeHtml(quote)).toBe(quote);
+  });
+});
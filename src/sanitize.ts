@@ -0,0 +1,139 @@
+/**
+ * Escaping and sanitization for everything the forum sends us.
+ *
+ * Plain-text fields (titles, usernames, error messages) go through
+ * escapeHtml(). Cooked post HTML goes through sanitizeHtml(), which keeps
+ * the markup Discourse produces (oneboxes, quotes, emoji, code blocks,
+ * lightboxes) and drops everything else.
+ */
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'article', 'aside', 'audio', 'b', 'blockquote', 'br', 'caption',
+  'code', 'del', 'details', 'div', 'em', 'figcaption', 'figure', 'h1', 'h2',
+  'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i', 'img', 'ins', 'kbd', 'li',
+  'mark', 'ol', 'p', 'pre', 's', 'small', 'source', 'span', 'strike', 'strong',
+  'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead',
+  'tr', 'u', 'ul', 'video',
+]);
+
+// Dropped along with their contents rather than unwrapped
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed',
+  'template', 'noscript', 'form', 'input', 'button', 'textarea', 'select',
+  'svg', 'math', 'link', 'meta', 'base', 'title',
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['class', 'title', 'dir', 'lang']);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href', 'rel', 'target', 'name']),
+  img: new Set(['src', 'alt', 'width', 'height', 'loading']),
+  video: new Set(['src', 'poster', 'controls', 'preload', 'width', 'height']),
+  audio: new Set(['src', 'controls', 'preload']),
+  source: new Set(['src', 'type']),
+  details: new Set(['open']),
+  ol: new Set(['start']),
+  td: new Set(['colspan', 'rowspan']),
+  th: new Set(['colspan', 'rowspan']),
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'poster']);
+
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+export function escapeHtml(text: string): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Resolve a URL attribute, returning null when it uses an unsafe protocol.
+ * Relative URLs are resolved against baseUrl so forum-relative links and
+ * emoji images point at the forum rather than the host page.
+ */
+function safeUrl(value: string, baseUrl?: string): string | null {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('#')) return trimmed;
+
+  try {
+    // The placeholder base only lets us inspect the protocol of relative URLs
+    const url = new URL(trimmed, baseUrl || 'https://relative.invalid');
+    if (!SAFE_PROTOCOLS.has(url.protocol)) return null;
+    return baseUrl ? url.toString() : trimmed;
+  } catch {
+    return null;
+  }
+}
+
+function sanitizeElement(element: Element, baseUrl?: string) {
+  const tag = element.tagName.toLowerCase();
+  const tagAttributes = TAG_ATTRIBUTES[tag];
+
+  for (const attr of Array.from(element.attributes)) {
+    const name = attr.name.toLowerCase();
+    const allowed = GLOBAL_ATTRIBUTES.has(name)
+      || name.startsWith('data-')
+      || (tagAttributes?.has(name) ?? false);
+
+    if (!allowed) {
+      element.removeAttribute(attr.name);
+      continue;
+    }
+
+    if (URL_ATTRIBUTES.has(name)) {
+      const url = safeUrl(attr.value, baseUrl);
+      if (url === null) {
+        element.removeAttribute(attr.name);
+      } else {
+        element.setAttribute(attr.name, url);
+      }
+    }
+  }
+
+  if (tag === 'a' && element.getAttribute('target') === '_blank') {
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+}
+
+function sanitizeChildren(parent: Node, baseUrl?: string) {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) continue;
+
+    if (child.nodeType !== Node.ELEMENT_NODE) {
+      child.remove();
+      continue;
+    }
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      element.remove();
+      continue;
+    }
+
+    sanitizeChildren(element, baseUrl);
+
+    if (ALLOWED_TAGS.has(tag)) {
+      sanitizeElement(element, baseUrl);
+    } else {
+      // Unknown wrappers are unwrapped so their (already clean) text survives
+      element.replaceWith(...Array.from(element.childNodes));
+    }
+  }
+}
+
+/**
+ * Sanitize cooked post HTML against an allowlist. Parsing happens in an
+ * inert template, so nothing in the input runs or loads while we work.
+ */
+export function sanitizeHtml(html: string, baseUrl?: string): string {
+  const template = document.createElement('template');
+  template.innerHTML = String(html ?? '');
+  sanitizeChildren(template.content, baseUrl);
+  return template.innerHTML;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { comparePosts, getLikeCount, matchesFilter, parseFilterMode, parseSortMode } from './sorting.js';
+
+function post(post_number: number, overrides: Record<string, unknown> = {}) {
+  return { username: `user${post_number}`, post_number, ...overrides };
+}
+
+function order(sort: 'oldest' | 'newest' | 'top', posts: ReturnType<typeof post>[]): number[] {
+  return [...posts].sort((a, b) => comparePosts(sort, a, b)).map(p => p.post_number);
+}
+
+describe('parsing', () => {
+  it('falls back to oldest and all', () => {
+    expect(parseSortMode('top')).toBe('top');
+    expect(parseSortMode('random')).toBe('oldest');
+    expect(parseSortMode(null)).toBe('oldest');
+    expect(parseFilterMode('staff')).toBe('staff');
+    expect(parseFilterMode('')).toBe('all');
+  });
+});
+
+describe('comparePosts', () => {
+  const posts = [
+    post(2, { like_count: 1, score: 5 }),
+    post(3, { like_count: 4 }),
+    post(1, { like_count: 1, score: 9 }),
+    post(4, { like_count: 1, score: 5 }),
+  ];
+
+  it('orders by post number', () => {
+    expect(order('oldest', posts)).toEqual([1, 2, 3, 4]);
+    expect(order('newest', posts)).toEqual([4, 3, 2, 1]);
+  });
+
+  it('ranks top posts by likes, then score, then age', () => {
+    expect(order('top', posts)).toEqual([3, 1, 2, 4]);
+  });
+});
+
+describe('getLikeCount', () => {
+  it('prefers the like action count', () => {
+    expect(getLikeCount(post(1, { like_count: 2, actions_summary: [{ id: 2, count: 5 }] }))).toBe(5);
+    expect(getLikeCount(post(1, { like_count: 2 }))).toBe(2);
+    expect(getLikeCount(post(1))).toBe(0);
+  });
+});
+
+describe('matchesFilter', () => {
+  it('keeps only the topic author\'s posts', () => {
+    expect(matchesFilter('author', post(1, { username: 'alice' }), 'alice')).toBe(true);
+    expect(matchesFilter('author', post(2, { username: 'bob' }), 'alice')).toBe(false);
+    expect(matchesFilter('author', post(2, { username: 'bob' }), null)).toBe(false);
+  });
+
+  it('keeps only staff posts', () => {
+    expect(matchesFilter('staff', post(1, { moderator: true }), null)).toBe(true);
+    expect(matchesFilter('staff', post(1, { admin: true }), null)).toBe(true);
+    expect(matchesFilter('staff', post(1), null)).toBe(false);
+  });
+
+  it('keeps everything without a filter', () => {
+    expect(matchesFilter('all', post(1), null)).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Comment ordering and filters.
+ *
+ * Discourse hands posts over in stream order, which is oldest first. The
+ * component can show them newest first or with the most liked on top,
+ * and narrow them down to the topic author's posts or to staff posts.
+ */
+
+export type SortMode = 'oldest' | 'newest' | 'top';
+export type FilterMode = 'all' | 'author' | 'staff';
+
+export const SORT_MODES: SortMode[] = ['oldest', 'newest', 'top'];
+export const FILTER_MODES: FilterMode[] = ['all', 'author', 'staff'];
+
+// The post fields ordering and filtering look at
+export interface SortablePost {
+  username: string;
+  post_number: number;
+  score?: number;
+  like_count?: number;
+  actions_summary?: Array<{ id: number; count?: number }>;
+  staff?: boolean;
+  admin?: boolean;
+  moderator?: boolean;
+}
+
+export function parseSortMode(value: string | null): SortMode {
+  return SORT_MODES.includes(value as SortMode) ? value as SortMode : 'oldest';
+}
+
+export function parseFilterMode(value: string | null): FilterMode {
+  return FILTER_MODES.includes(value as FilterMode) ? value as FilterMode : 'all';
+}
+
+export function getLikeCount(post: SortablePost): number {
+  // action_type 2 is "like"; its count is fresher than like_count when both are sent
+  const likeAction = post.actions_summary?.find(action => action.id === 2);
+  return Number(likeAction?.count || post.like_count || 0);
+}
+
+/**
+ * Order two posts for a sort mode. Top ranks by likes, then by Discourse's
+ * score, and leaves ties in the order they were posted.
+ */
+export function comparePosts(sort: SortMode, a: SortablePost, b: SortablePost): number {
+  if (sort === 'newest') {
+    return b.post_number - a.post_number;
+  }
+  if (sort === 'top') {
+    return getLikeCount(b) - getLikeCount(a)
+      || (b.score || 0) - (a.score || 0)
+      || a.post_number - b.post_number;
+  }
+  return a.post_number - b.post_number;
+}
+
+/**
+ * Whether a post passes a filter. topicAuthor is the username of whoever
+ * started the topic, or null when it isn't known.
+ */
+export function matchesFilter(filter: FilterMode, post: SortablePost, topicAuthor: string | null): boolean {
+  if (filter === 'author') {
+    return topicAuthor !== null && post.username === topicAuthor;
+  }
+  if (filter === 'staff') {
+    return Boolean(post.staff || post.admin || post.moderator);
+  }
+  return true;
+}
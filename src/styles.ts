@@ -0,0 +1,758 @@
+/**
+ * Stylesheet for <discourse-comments>.
+ *
+ * Every color, and the font, comes from a --dc-* custom property set on
+ * :host, so host pages can restyle the widget from outside the shadow root:
+ *
+ *   discourse-comments { --dc-primary-color: rebeccapurple; }
+ *
+ * The theme attribute picks the defaults: light (the default), dark, or
+ * auto, which follows prefers-color-scheme.
+ */
+
+const LIGHT_THEME = `
+  --dc-font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  --dc-text-color: #333;
+  --dc-muted-color: #666;
+  --dc-subtle-color: #919191;
+  --dc-background: transparent;
+  --dc-surface-color: #f8f9fa;
+  --dc-border-color: #e9ecef;
+  --dc-input-background: white;
+  --dc-input-border-color: #ccc;
+  --dc-hover-background: #f5f5f5;
+  --dc-primary-color: #0088cc;
+  --dc-primary-hover-color: #006699;
+  --dc-primary-text-color: white;
+  --dc-like-color: #fa6c8d;
+  --dc-like-hover-background: rgba(250, 108, 141, 0.15);
+  --dc-highlight-background: #fffbe6;
+  --dc-error-color: #c33;
+  --dc-error-background: #fee;
+  --dc-error-border-color: #fcc;
+  --dc-success-color: #3c3;
+  --dc-success-background: #efe;
+  --dc-success-border-color: #cfc;
+`;
+
+// Only the colors change; the font stays whatever light set or the page overrode
+const DARK_THEME = `
+  --dc-text-color: #e6e6e6;
+  --dc-muted-color: #a8a8a8;
+  --dc-subtle-color: #8c8c8c;
+  --dc-background: #1f2023;
+  --dc-surface-color: #27292d;
+  --dc-border-color: #3a3c41;
+  --dc-input-background: #2c2e33;
+  --dc-input-border-color: #55585e;
+  --dc-hover-background: #35373c;
+  --dc-primary-color: #3ca5e0;
+  --dc-primary-hover-color: #65b9ea;
+  --dc-primary-text-color: #111;
+  --dc-like-color: #fa6c8d;
+  --dc-like-hover-background: rgba(250, 108, 141, 0.2);
+  --dc-highlight-background: #3b3520;
+  --dc-error-color: #ff8a93;
+  --dc-error-background: #3b1f22;
+  --dc-error-border-color: #6b2c33;
+  --dc-success-color: #7fd08f;
+  --dc-success-background: #1d3324;
+  --dc-success-border-color: #2e5c3b;
+`;
+
+export const styles = `
+  :host {
+    ${LIGHT_THEME}
+    display: block;
+    font-family: var(--dc-font-family);
+  }
+
+  :host([theme="dark"]) {
+    ${DARK_THEME}
+  }
+
+  @media (prefers-color-scheme: dark) {
+    :host([theme="auto"]) {
+      ${DARK_THEME}
+    }
+  }
+
+  .comments-container {
+    max-width: 800px;
+    margin: 0 auto;
+    padding: 20px;
+    color: var(--dc-text-color);
+    background: var(--dc-background);
+  }
+
+  .comments-header {
+    border-bottom: 2px solid var(--dc-border-color);
+    padding-bottom: 10px;
+    margin-bottom: 20px;
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+  }
+
+  .comments-title {
+    font-size: 24px;
+    font-weight: bold;
+    margin: 0;
+  }
+
+  .auth-section {
+    display: flex;
+    gap: 10px;
+    align-items: center;
+  }
+
+  .btn {
+    padding: 8px 16px;
+    border: 1px solid var(--dc-input-border-color);
+    border-radius: 4px;
+    background: var(--dc-input-background);
+    color: var(--dc-text-color);
+    cursor: pointer;
+    font-size: 14px;
+  }
+
+  .btn:hover {
+    background: var(--dc-hover-background);
+  }
+
+  .btn-primary {
+    background: var(--dc-primary-color);
+    color: var(--dc-primary-text-color);
+    border-color: var(--dc-primary-color);
+  }
+
+  .btn-primary:hover {
+    background: var(--dc-primary-hover-color);
+  }
+
+  .btn:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+
+  .comment {
+    padding: 15px 0;
+    border-bottom: 1px solid var(--dc-border-color);
+  }
+
+  .comment[hidden] {
+    display: none;
+  }
+
+  .comment:focus {
+    outline: none;
+  }
+
+  .comment:focus-visible {
+    outline: 2px solid var(--dc-primary-color);
+    outline-offset: 4px;
+  }
+
+  .comments-toolbar {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 15px;
+    margin-bottom: 10px;
+    font-size: 0.9em;
+    color: var(--dc-muted-color);
+  }
+
+  .toolbar-field select {
+    margin-left: 5px;
+    font: inherit;
+    color: var(--dc-text-color);
+    background: var(--dc-background);
+    border: 1px solid var(--dc-border-color);
+    border-radius: 4px;
+  }
+
+  .filter-empty {
+    color: var(--dc-muted-color);
+    text-align: center;
+  }
+
+  .comment-header {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 4px 10px;
+  }
+
+  .comment-user {
+    position: relative;
+    display: inline-flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 6px;
+  }
+
+  .avatar-wrapper {
+    position: relative;
+    display: inline-flex;
+  }
+
+  .comment-avatar {
+    width: 40px;
+    height: 40px;
+    border-radius: 50%;
+  }
+
+  .user-flair {
+    position: absolute;
+    right: -4px;
+    bottom: -4px;
+    width: 18px;
+    height: 18px;
+    padding: 1px;
+    border-radius: 50%;
+    background: var(--dc-surface-color);
+  }
+
+  .comment-heading {
+    display: inline-flex;
+    gap: 6px;
+    align-items: baseline;
+    margin: 0;
+    font-size: inherit;
+    font-weight: normal;
+  }
+
+  .comment-author {
+    font-weight: bold;
+    color: var(--dc-text-color);
+  }
+
+  .comment-username,
+  .user-title {
+    color: var(--dc-muted-color);
+    font-size: 14px;
+  }
+
+  .comment-user-link {
+    display: inline-flex;
+    gap: 6px;
+    align-items: baseline;
+    color: inherit;
+    text-decoration: none;
+  }
+
+  .comment-user-link:hover .comment-author {
+    text-decoration: underline;
+  }
+
+  .user-badge {
+    padding: 1px 6px;
+    border-radius: 3px;
+    font-size: 12px;
+    background: var(--dc-surface-color);
+    color: var(--dc-muted-color);
+  }
+
+  .user-badge-admin,
+  .user-badge-moderator {
+    background: var(--dc-primary-color);
+    color: var(--dc-primary-text-color);
+  }
+
+  .user-card {
+    display: none;
+    position: absolute;
+    top: 100%;
+    left: 0;
+    z-index: 10;
+    gap: 12px;
+    min-width: 240px;
+    padding: 12px;
+    background: var(--dc-background);
+    border: 1px solid var(--dc-border-color);
+    border-radius: 6px;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+  }
+
+  .comment-user:hover .user-card,
+  .comment-user:focus-within .user-card {
+    display: flex;
+  }
+
+  .user-card-avatar {
+    width: 64px;
+    height: 64px;
+    border-radius: 50%;
+  }
+
+  .user-card-details {
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+    font-size: 14px;
+    color: var(--dc-muted-color);
+  }
+
+  .user-card-name {
+    font-size: 16px;
+    color: var(--dc-text-color);
+  }
+
+  .user-card-link {
+    margin-top: 6px;
+    color: var(--dc-primary-color);
+  }
+
+  .comment-date {
+    font-size: 14px;
+    color: var(--dc-muted-color);
+  }
+
+  .comment-content {
+    margin-top: 10px;
+    line-height: 1.6;
+  }
+
+  .comment-form {
+    margin: 20px 0;
+    padding: 15px;
+    background: var(--dc-surface-color);
+    border-radius: 4px;
+  }
+
+  .comment-form textarea {
+    width: 100%;
+    min-height: 100px;
+    padding: 10px;
+    border: 1px solid var(--dc-input-border-color);
+    border-radius: 4px;
+    background: var(--dc-input-background);
+    color: inherit;
+    font-family: inherit;
+    font-size: 14px;
+    resize: vertical;
+    box-sizing: border-box;
+  }
+
+  .autocomplete {
+    max-height: 220px;
+    margin: 4px 0 0;
+    padding: 4px;
+    overflow-y: auto;
+    list-style: none;
+    background: var(--dc-input-background);
+    border: 1px solid var(--dc-input-border-color);
+    border-radius: 4px;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+  }
+
+  .autocomplete[hidden] {
+    display: none;
+  }
+
+  .autocomplete-option {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 4px 8px;
+    border-radius: 3px;
+    font-size: 14px;
+    cursor: pointer;
+  }
+
+  .autocomplete-option[aria-selected="true"] {
+    background: var(--dc-primary-color);
+    color: var(--dc-primary-text-color);
+  }
+
+  .autocomplete-image {
+    width: 20px;
+    height: 20px;
+  }
+
+  .autocomplete-detail {
+    opacity: 0.75;
+  }
+
+  .comment-form-actions {
+    margin-top: 10px;
+    display: flex;
+    gap: 10px;
+  }
+
+  .empty-state {
+    text-align: center;
+    padding: 40px;
+    color: var(--dc-muted-color);
+  }
+
+  .loading {
+    text-align: center;
+    padding: 40px;
+    color: var(--dc-muted-color);
+  }
+
+  .comments-placeholder {
+    text-align: center;
+    padding: 20px;
+  }
+
+  .error {
+    background: var(--dc-error-background);
+    border: 1px solid var(--dc-error-border-color);
+    border-radius: 4px;
+    padding: 15px;
+    color: var(--dc-error-color);
+  }
+
+  .success {
+    background: var(--dc-success-background);
+    border: 1px solid var(--dc-success-border-color);
+    border-radius: 4px;
+    padding: 15px;
+    color: var(--dc-success-color);
+    margin-bottom: 15px;
+  }
+
+  .comment-actions {
+    margin-top: 10px;
+    display: flex;
+    align-items: center;
+    gap: 15px;
+  }
+
+  .like-btn {
+    background: none;
+    border: none;
+    cursor: pointer;
+    display: flex;
+    align-items: center;
+    gap: 5px;
+    color: var(--dc-subtle-color);
+    font-size: 14px;
+    padding: 4px 8px;
+    border-radius: 4px;
+    transition: all 0.15s ease;
+  }
+
+  .like-btn:hover {
+    background: var(--dc-like-hover-background);
+    color: var(--dc-like-color);
+  }
+
+  .like-btn.liked {
+    color: var(--dc-like-color);
+  }
+
+  .like-btn.liked:hover {
+    background: var(--dc-like-hover-background);
+  }
+
+  .like-btn:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+
+  .reactions {
+    position: relative;
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 5px;
+  }
+
+  .reaction-btn,
+  .reaction-option {
+    background: none;
+    border: 1px solid var(--dc-border-color);
+    border-radius: 12px;
+    cursor: pointer;
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    color: var(--dc-subtle-color);
+    font-size: 14px;
+    padding: 2px 8px;
+  }
+
+  .reaction-btn:hover,
+  .reaction-option:hover {
+    background: var(--dc-hover-background);
+  }
+
+  .reaction-btn.reacted,
+  .reaction-option.reacted {
+    border-color: var(--dc-primary-color);
+    color: var(--dc-text-color);
+  }
+
+  .reaction-btn:disabled {
+    cursor: default;
+  }
+
+  .reaction-btn:disabled:hover {
+    background: none;
+  }
+
+  .reaction-emoji {
+    width: 20px;
+    height: 20px;
+  }
+
+  .reaction-count {
+    font-weight: 500;
+  }
+
+  .reaction-picker {
+    position: absolute;
+    top: 100%;
+    left: 0;
+    z-index: 1;
+    display: flex;
+    flex-wrap: wrap;
+    gap: 4px;
+    margin-top: 4px;
+    padding: 6px;
+    background: var(--dc-surface-color);
+    border: 1px solid var(--dc-border-color);
+    border-radius: 6px;
+  }
+
+  .reaction-picker[hidden] {
+    display: none;
+  }
+
+  .action-btn {
+    background: none;
+    border: none;
+    cursor: pointer;
+    color: var(--dc-subtle-color);
+    font-size: 14px;
+    padding: 4px 8px;
+    border-radius: 4px;
+  }
+
+  .action-btn:hover {
+    background: var(--dc-hover-background);
+    color: var(--dc-text-color);
+  }
+
+  .composer-tabs {
+    display: flex;
+    align-items: center;
+    gap: 5px;
+    margin-bottom: 8px;
+  }
+
+  .composer-tab {
+    background: none;
+    border: none;
+    border-bottom: 2px solid transparent;
+    cursor: pointer;
+    font-size: 14px;
+    padding: 4px 8px;
+    color: var(--dc-muted-color);
+  }
+
+  .composer-tab.active {
+    border-bottom-color: var(--dc-primary-color);
+    color: var(--dc-text-color);
+  }
+
+  .composer-toolbar {
+    margin-left: auto;
+    display: flex;
+    gap: 2px;
+  }
+
+  .composer-toolbar[hidden] {
+    display: none;
+  }
+
+  .toolbar-btn {
+    background: none;
+    border: 1px solid transparent;
+    border-radius: 4px;
+    cursor: pointer;
+    font-size: 14px;
+    min-width: 28px;
+    padding: 2px 6px;
+    color: var(--dc-muted-color);
+  }
+
+  .toolbar-btn[data-format="bold"] {
+    font-weight: bold;
+  }
+
+  .toolbar-btn[data-format="italic"] {
+    font-style: italic;
+  }
+
+  .toolbar-btn:hover {
+    border-color: var(--dc-input-border-color);
+    background: var(--dc-input-background);
+  }
+
+  .composer-preview {
+    min-height: 100px;
+    padding: 10px;
+    border: 1px solid var(--dc-input-border-color);
+    border-radius: 4px;
+    background: var(--dc-input-background);
+    box-sizing: border-box;
+  }
+
+  .preview-empty {
+    color: var(--dc-subtle-color);
+  }
+
+  .comment-content aside.quote {
+    margin: 10px 0;
+    border-left: 4px solid var(--dc-border-color);
+    background: var(--dc-surface-color);
+    padding: 8px 12px;
+  }
+
+  .comment-content aside.quote blockquote {
+    margin: 0;
+  }
+
+  .comment.highlighted {
+    background: var(--dc-highlight-background);
+    transition: background 0.3s ease;
+  }
+
+  .comment-pending {
+    opacity: 0.6;
+  }
+
+  .comment-queued {
+    border-left: 3px dashed var(--dc-muted-color);
+    padding-left: 12px;
+  }
+
+  .comment-queued .comment-date {
+    font-style: italic;
+  }
+
+  .visually-hidden {
+    position: absolute;
+    width: 1px;
+    height: 1px;
+    margin: -1px;
+    padding: 0;
+    overflow: hidden;
+    clip: rect(0 0 0 0);
+    white-space: nowrap;
+    border: 0;
+  }
+
+  .toasts {
+    position: sticky;
+    bottom: 10px;
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+  }
+
+  .toasts:not(:empty) {
+    margin-top: 10px;
+  }
+
+  .toast {
+    background: var(--dc-error-background);
+    border: 1px solid var(--dc-error-border-color);
+    border-radius: 4px;
+    color: var(--dc-error-color);
+    padding: 10px 15px;
+  }
+
+  .comment-deleted .comment-content {
+    color: var(--dc-subtle-color);
+    font-style: italic;
+  }
+
+  .reply-composer,
+  .edit-composer {
+    margin: 10px 0 0;
+  }
+
+  .composer-error {
+    margin-top: 10px;
+    padding: 10px;
+  }
+
+  .heart-icon {
+    width: 16px;
+    height: 16px;
+    fill: currentColor;
+  }
+
+  .like-count {
+    font-weight: 500;
+  }
+
+  .like-count-only {
+    display: flex;
+    align-items: center;
+    gap: 5px;
+    color: var(--dc-like-color);
+    font-size: 14px;
+  }
+
+  .like-count-only .heart-icon {
+    width: 16px;
+    height: 16px;
+  }
+
+  .comments-footer {
+    margin-top: 20px;
+    text-align: center;
+  }
+
+  .new-posts-banner {
+    display: block;
+    width: 100%;
+    margin-bottom: 15px;
+    padding: 10px;
+    border: none;
+    border-radius: 4px;
+    background: var(--dc-primary-color);
+    color: var(--dc-primary-text-color);
+    cursor: pointer;
+    font-size: 14px;
+  }
+
+  .new-posts-banner:hover {
+    background: var(--dc-primary-hover-color);
+  }
+
+  .load-more-sentinel {
+    height: 1px;
+  }
+
+  .comment-replies {
+    margin-left: 20px;
+    padding-left: 15px;
+    border-left: 2px solid var(--dc-border-color);
+  }
+
+  .comment-replies.collapsed-replies .comment-replies {
+    margin-left: 0;
+    padding-left: 0;
+    border-left: none;
+  }
+
+  .show-replies-btn {
+    background: none;
+    border: none;
+    color: var(--dc-primary-color);
+    cursor: pointer;
+    font-size: 14px;
+    padding: 8px 0;
+  }
+
+  .show-replies-btn:hover {
+    text-decoration: underline;
+  }
+`;
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchForumColors, findColorSchemeUrls, forumColorStyles, parseColorDefinitions } from './theme.js';
+
+function textResponse(status: number, body: string) {
+  return { ok: status >= 200 && status < 300, status, text: async () => body };
+}
+
+const LIGHT_CSS = ':root{--scheme-type: light;--primary: #222222;--secondary: #ffffff;--tertiary: #0088cc;--love: #fa6c8d}.x{color:red}';
+const DARK_CSS = ':root{--scheme-type: dark;--primary: #dddddd;--secondary: #222222;--tertiary: #099dd7}';
+
+const FORUM_HTML = `
+  <html><head>
+    <link href="/stylesheets/color_definitions_light_1_abc.css" media="all" rel="stylesheet" class="light-scheme">
+    <link href="/stylesheets/color_definitions_dark_2_def.css" media="(prefers-color-scheme: dark)" rel="stylesheet" class="dark-scheme">
+    <link href="/stylesheets/desktop_abc.css" media="all" rel="stylesheet">
+  </head><body></body></html>
+`;
+
+describe('parseColorDefinitions', () => {
+  it('reads the variables from the :root block', () => {
+    expect(parseColorDefinitions(LIGHT_CSS)).toEqual({
+      'scheme-type': 'light',
+      primary: '#222222',
+      secondary: '#ffffff',
+      tertiary: '#0088cc',
+      love: '#fa6c8d',
+    });
+  });
+
+  it('drops values that could break out of a declaration', () => {
+    const definitions = parseColorDefinitions(':root{--primary: red</style><script>;--love: #f00}');
+
+    expect(definitions.primary).toBeUndefined();
+    expect(definitions.love).toBe('#f00');
+  });
+
+  it('returns nothing for stylesheets without a :root block', () => {
+    expect(parseColorDefinitions('.topic { color: red; }')).toEqual({});
+  });
+});
+
+describe('findColorSchemeUrls', () => {
+  it('finds the light and dark scheme stylesheets', () => {
+    expect(findColorSchemeUrls(FORUM_HTML, 'https://forum.example.com/')).toEqual({
+      light: 'https://forum.example.com/stylesheets/color_definitions_light_1_abc.css',
+      dark: 'https://forum.example.com/stylesheets/color_definitions_dark_2_def.css',
+    });
+  });
+
+  it('ignores links with unsafe protocols', () => {
+    const html = '<link href="javascript:alert(1)//color_definitions.css" rel="stylesheet">';
+    expect(findColorSchemeUrls(html, 'https://forum.example.com/')).toEqual({});
+  });
+});
+
+describe('forumColorStyles', () => {
+  it('maps forum variables onto --dc-* properties', () => {
+    const css = forumColorStyles({ light: { primary: '#222', tertiary: '#08c', love: '#f00' } });
+
+    expect(css).toContain(':host, :host([theme]) {');
+    expect(css).toContain('--dc-text-color: #222;');
+    expect(css).toContain('--dc-primary-color: #08c;');
+    expect(css).toContain('--dc-like-color: #f00;');
+    // Properties the forum doesn't define keep the built-in values
+    expect(css).not.toContain('--dc-error-color');
+  });
+
+  it('adds dark variants when the forum has a dark scheme', () => {
+    const css = forumColorStyles({ light: { primary: '#222' }, dark: { primary: '#ddd' } });
+
+    expect(css).toContain(':host([theme="dark"]) { --dc-text-color: #ddd; }');
+    expect(css).toContain('@media (prefers-color-scheme: dark) { :host([theme="auto"]) { --dc-text-color: #ddd; } }');
+  });
+});
+
+describe('fetchForumColors', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fetches and parses both schemes, once per forum', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url === 'https://colors.example.com/') return textResponse(200, FORUM_HTML);
+      if (url.includes('color_definitions_light')) return textResponse(200, LIGHT_CSS);
+      return textResponse(200, DARK_CSS);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const colors = await fetchForumColors('https://colors.example.com');
+    await fetchForumColors('https://colors.example.com');
+
+    expect(colors.light.tertiary).toBe('#0088cc');
+    expect(colors.dark?.primary).toBe('#dddddd');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries after a failure', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(textResponse(500, ''))
+      .mockResolvedValueOnce(textResponse(200, '<link href="/color_definitions_1.css" rel="stylesheet">'))
+      .mockResolvedValueOnce(textResponse(200, LIGHT_CSS));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchForumColors('https://flaky.example.com')).rejects.toThrow('HTTP 500');
+    const colors = await fetchForumColors('https://flaky.example.com');
+
+    expect(colors).toEqual({ light: parseColorDefinitions(LIGHT_CSS) });
+  });
+});
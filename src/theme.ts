@@ -0,0 +1,153 @@
+/**
+ * Colors from the forum's own color scheme, for forum-colors mode.
+ *
+ * Discourse publishes each color scheme as a stylesheet of CSS variables
+ * (color_definitions_*.css) linked from every page. We read those variables
+ * and map them onto the --dc-* properties the component styles with.
+ */
+
+import { normalizeBaseUrl } from './utils.js';
+
+export type ColorDefinitions = Record<string, string>;
+
+export interface ForumColors {
+  light: ColorDefinitions;
+  // Only present when the forum offers a separate dark scheme
+  dark?: ColorDefinitions;
+}
+
+export interface ColorSchemeUrls {
+  light?: string;
+  dark?: string;
+}
+
+// Discourse variable for each --dc-* property; missing variables keep our default
+const PROPERTY_SOURCES: [string, string][] = [
+  ['--dc-text-color', 'primary'],
+  ['--dc-muted-color', 'primary-high'],
+  ['--dc-subtle-color', 'primary-medium'],
+  ['--dc-background', 'secondary'],
+  ['--dc-surface-color', 'primary-very-low'],
+  ['--dc-border-color', 'primary-low'],
+  ['--dc-input-background', 'secondary'],
+  ['--dc-input-border-color', 'primary-low-mid'],
+  ['--dc-hover-background', 'primary-very-low'],
+  ['--dc-primary-color', 'tertiary'],
+  ['--dc-primary-hover-color', 'tertiary-hover'],
+  ['--dc-primary-text-color', 'secondary'],
+  ['--dc-like-color', 'love'],
+  ['--dc-like-hover-background', 'love-low'],
+  ['--dc-highlight-background', 'highlight-low'],
+  ['--dc-error-color', 'danger'],
+  ['--dc-error-background', 'danger-low'],
+  ['--dc-error-border-color', 'danger-medium'],
+  ['--dc-success-color', 'success'],
+  ['--dc-success-background', 'success-low'],
+  ['--dc-success-border-color', 'success-medium'],
+];
+
+// Plain color values only, so nothing can break out of the declaration
+const SAFE_COLOR = /^[#\w\s(),.%-]+$/;
+
+const cache: Map<string, Promise<ForumColors>> = new Map();
+
+/**
+ * Read the variables out of the :root block of a color_definitions
+ * stylesheet, keyed without their leading dashes.
+ */
+export function parseColorDefinitions(css: string): ColorDefinitions {
+  const definitions: ColorDefinitions = {};
+  const root = css.match(/:root\s*\{([^}]*)\}/);
+  if (!root) return definitions;
+
+  for (const match of root[1].matchAll(/--([\w-]+)\s*:\s*([^;]+)/g)) {
+    const value = match[2].trim();
+    if (SAFE_COLOR.test(value)) {
+      definitions[match[1]] = value;
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Find the color scheme stylesheets linked from a forum page. Forums with a
+ * dark scheme link it with a prefers-color-scheme media query.
+ */
+export function findColorSchemeUrls(html: string, baseUrl: string): ColorSchemeUrls {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const urls: ColorSchemeUrls = {};
+
+  for (const link of Array.from(doc.querySelectorAll('link[href*="color_definitions"]'))) {
+    let url: URL;
+    try {
+      url = new URL(link.getAttribute('href') || '', baseUrl);
+    } catch {
+      continue;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') continue;
+
+    const isDark = link.classList.contains('dark-scheme')
+      || /dark/.test(link.getAttribute('media') || '');
+    const key = isDark ? 'dark' : 'light';
+    urls[key] ??= url.toString();
+  }
+
+  return urls;
+}
+
+function declarations(definitions: ColorDefinitions): string {
+  return PROPERTY_SOURCES
+    .filter(([, source]) => definitions[source] !== undefined)
+    .map(([property, source]) => `${property}: ${definitions[source]};`)
+    .join(' ');
+}
+
+/**
+ * Build the stylesheet that applies forum colors over the built-in themes.
+ * It goes after the main stylesheet, so equal specificity is enough to win.
+ */
+export function forumColorStyles(colors: ForumColors): string {
+  let css = `:host, :host([theme]) { ${declarations(colors.light)} }`;
+  if (colors.dark) {
+    const dark = declarations(colors.dark);
+    css += ` :host([theme="dark"]) { ${dark} }`;
+    css += ` @media (prefers-color-scheme: dark) { :host([theme="auto"]) { ${dark} } }`;
+  }
+  return css;
+}
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.text();
+}
+
+async function loadForumColors(discourseUrl: string): Promise<ForumColors> {
+  const base = normalizeBaseUrl(discourseUrl);
+  const urls = findColorSchemeUrls(await fetchText(`${base}/`), `${base}/`);
+  if (!urls.light) {
+    throw new Error('No color scheme found');
+  }
+
+  const [light, dark] = await Promise.all([
+    fetchText(urls.light).then(parseColorDefinitions),
+    urls.dark ? fetchText(urls.dark).then(parseColorDefinitions) : undefined,
+  ]);
+  return dark ? { light, dark } : { light };
+}
+
+/**
+ * Fetch a forum's color schemes. Results are shared between every element
+ * on the page pointing at the same forum; failures are retried next time.
+ */
+export function fetchForumColors(discourseUrl: string): Promise<ForumColors> {
+  let colors = cache.get(discourseUrl);
+  if (!colors) {
+    colors = loadForumColors(discourseUrl);
+    cache.set(discourseUrl, colors);
+    colors.catch(() => cache.delete(discourseUrl));
+  }
+  return colors;
+}
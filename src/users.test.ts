@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { avatarSize, avatarUrl, displayNames, flairUrl, getUserRole, parseNameOrder, profileUrl } from './users.js';
+
+describe('avatarSize', () => {
+  it('picks the smallest generated size that stays sharp', () => {
+    expect(avatarSize(40)).toBe(45);
+    expect(avatarSize(40, 2)).toBe(90);
+    expect(avatarSize(48, 1.5)).toBe(90);
+    expect(avatarSize(400, 3)).toBe(360);
+  });
+});
+
+describe('avatarUrl', () => {
+  it('fills in the size and resolves against the forum', () => {
+    expect(avatarUrl('https://forum.example.com/', '/user_avatar/forum.example.com/alice/{size}/1_2.png', 90))
+      .toBe('https://forum.example.com/user_avatar/forum.example.com/alice/90/1_2.png');
+  });
+
+  it('keeps CDN and protocol-relative templates', () => {
+    expect(avatarUrl('https://forum.example.com', 'https://cdn.example.com/a/{size}.png', 45))
+      .toBe('https://cdn.example.com/a/45.png');
+    expect(avatarUrl('https://forum.example.com', '//cdn.example.com/a/{size}.png', 45))
+      .toBe('https://cdn.example.com/a/45.png');
+  });
+
+  it('drops missing templates and unsafe URLs', () => {
+    expect(avatarUrl('https://forum.example.com', null, 45)).toBeNull();
+    expect(avatarUrl('https://forum.example.com', 'javascript:alert(1)', 45)).toBeNull();
+  });
+});
+
+describe('flairUrl', () => {
+  it('returns image flair and skips icon names', () => {
+    expect(flairUrl('https://forum.example.com', { username: 'a', flair_url: '/uploads/flair.png' }))
+      .toBe('https://forum.example.com/uploads/flair.png');
+    expect(flairUrl('https://forum.example.com', { username: 'a', flair_url: 'fa-star' })).toBeNull();
+    expect(flairUrl('https://forum.example.com', { username: 'a' })).toBeNull();
+  });
+});
+
+describe('displayNames', () => {
+  it('puts the username or the name first', () => {
+    const author = { username: 'alice', name: 'Alice Liddell' };
+
+    expect(displayNames(author, 'username')).toEqual({ primary: 'alice', secondary: 'Alice Liddell' });
+    expect(displayNames(author, 'name')).toEqual({ primary: 'Alice Liddell', secondary: 'alice' });
+  });
+
+  it('shows the username alone when the name adds nothing', () => {
+    expect(displayNames({ username: 'alice', name: '' }, 'name')).toEqual({ primary: 'alice', secondary: null });
+    expect(displayNames({ username: 'alice', name: 'Alice' }, 'name')).toEqual({ primary: 'alice', secondary: null });
+    expect(displayNames({ username: 'alice' }, 'name')).toEqual({ primary: 'alice', secondary: null });
+  });
+
+  it('parses name-order', () => {
+    expect(parseNameOrder('name')).toBe('name');
+    expect(parseNameOrder('nickname')).toBe('username');
+    expect(parseNameOrder(null)).toBe('username');
+  });
+});
+
+describe('getUserRole', () => {
+  it('ranks admins above moderators', () => {
+    expect(getUserRole({ username: 'a', admin: true, moderator: true })).toBe('admin');
+    expect(getUserRole({ username: 'a', moderator: true })).toBe('moderator');
+    expect(getUserRole({ username: 'a' })).toBeNull();
+  });
+});
+
+describe('profileUrl', () => {
+  it('links to the forum profile', () => {
+    expect(profileUrl('https://forum.example.com/', 'jane doe')).toBe('https://forum.example.com/u/jane%20doe');
+  });
+});
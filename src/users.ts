@@ -0,0 +1,98 @@
+/**
+ * Comment authors: avatars, names and roles.
+ *
+ * Discourse sends each post's author details along with the post. Avatars
+ * come as a template with a {size} placeholder, resolved here against the
+ * sizes Discourse generates so the browser gets a sharp image without
+ * asking the forum to resize one on demand.
+ */
+
+import { normalizeBaseUrl } from './utils.js';
+
+export type NameOrder = 'username' | 'name';
+export type UserRole = 'admin' | 'moderator';
+
+// Discourse's default avatar_sizes site setting
+const AVATAR_SIZES = [24, 32, 45, 48, 60, 64, 90, 96, 120, 144, 180, 240, 360];
+
+// The author fields Discourse serializes with a post
+export interface PostAuthor {
+  username: string;
+  name?: string | null;
+  avatar_template?: string | null;
+  user_title?: string | null;
+  admin?: boolean;
+  moderator?: boolean;
+  primary_group_name?: string | null;
+  flair_url?: string | null;
+  flair_name?: string | null;
+  flair_bg_color?: string | null;
+}
+
+export interface DisplayNames {
+  primary: string;
+  // null when there's no separate name to show
+  secondary: string | null;
+}
+
+export function parseNameOrder(value: string | null): NameOrder {
+  return value === 'name' ? 'name' : 'username';
+}
+
+/**
+ * The smallest generated avatar size that covers an image drawn at
+ * displaySize CSS pixels on a screen with this pixel ratio.
+ */
+export function avatarSize(displaySize: number, pixelRatio: number = 1): number {
+  const needed = Math.ceil(displaySize * (pixelRatio || 1));
+  return AVATAR_SIZES.find(size => size >= needed) ?? AVATAR_SIZES[AVATAR_SIZES.length - 1];
+}
+
+// Relative paths resolve against the forum; anything but http(s) is dropped
+export function resolveForumUrl(discourseUrl: string, path: string): string | null {
+  try {
+    const url = new URL(path, normalizeBaseUrl(discourseUrl) + '/');
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function avatarUrl(discourseUrl: string, template: string | null | undefined, size: number): string | null {
+  if (!template) return null;
+  return resolveForumUrl(discourseUrl, template.replace('{size}', String(size)));
+}
+
+/**
+ * A group flair image, when the author's primary group has one. Flair can
+ * also be an icon name, which needs the forum's icon set, so those are skipped.
+ */
+export function flairUrl(discourseUrl: string, author: PostAuthor): string | null {
+  const flair = author.flair_url;
+  if (!flair || !/[/.]/.test(flair)) return null;
+  return resolveForumUrl(discourseUrl, flair);
+}
+
+export function profileUrl(discourseUrl: string, username: string): string {
+  return `${normalizeBaseUrl(discourseUrl)}/u/${encodeURIComponent(username)}`;
+}
+
+/**
+ * The names to show for an author, in the order the page asked for.
+ * Names that only repeat the username are left out.
+ */
+export function displayNames(author: PostAuthor, order: NameOrder): DisplayNames {
+  const name = author.name?.trim() || '';
+  if (!name || name.toLowerCase() === author.username.toLowerCase()) {
+    return { primary: author.username, secondary: null };
+  }
+  return order === 'name'
+    ? { primary: name, secondary: author.username }
+    : { primary: author.username, secondary: name };
+}
+
+export function getUserRole(author: PostAuthor): UserRole | null {
+  if (author.admin) return 'admin';
+  if (author.moderator) return 'moderator';
+  return null;
+}
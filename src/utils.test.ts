@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getErrorStatus } from './mutations.js';
+import { fetchJson, isRecord, normalizeBaseUrl } from './utils.js';
+
+describe('normalizeBaseUrl', () => {
+  it('drops trailing slashes', () => {
+    expect(normalizeBaseUrl('https://forum.example.com//')).toBe('https://forum.example.com');
+    expect(normalizeBaseUrl('https://example.com/forum/')).toBe('https://example.com/forum');
+    expect(normalizeBaseUrl('https://forum.example.com')).toBe('https://forum.example.com');
+  });
+});
+
+describe('isRecord', () => {
+  it('accepts objects only', () => {
+    expect(isRecord({ id: 1 })).toBe(true);
+    expect(isRecord([1])).toBe(false);
+    expect(isRecord(null)).toBe(false);
+    expect(isRecord('text')).toBe(false);
+  });
+});
+
+describe('fetchJson', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes the request on and parses the answer', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({ id: 1 }) });
+    vi.stubGlobal('fetch', fetchMock);
+    const init = { method: 'POST', headers: { 'User-Api-Key': 'key' } };
+
+    expect(await fetchJson('https://forum.example.com/posts.json', init)).toEqual({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledWith('https://forum.example.com/posts.json', init);
+  });
+
+  it('throws an error getErrorStatus can read', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, json: async () => ({}) }));
+
+    const error = await fetchJson('https://forum.example.com/t/1.json').catch(e => e) as Error;
+
+    expect(error.message).toBe('HTTP 404');
+    expect(getErrorStatus(error)).toBe(404);
+  });
+});
@@ -1,14 +1,45 @@
-export function formatRelativeTime(date: Date): string {
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffMins = Math.floor(diffMs / 60000);
-  const diffHours = Math.floor(diffMs / 3600000);
-  const diffDays = Math.floor(diffMs / 86400000);
-
-  if (diffMins < 1) return 'just now';
-  if (diffMins < 60) return `${diffMins} minute${diffMins > 1 ? 's' : ''} ago`;
-  if (diffHours < 24) return `${diffHours} hour${diffHours > 1 ? 's' : ''} ago`;
-  if (diffDays < 30) return `${diffDays} day${diffDays > 1 ? 's' : ''} ago`;
-
-  return date.toLocaleDateString();
+import { DEFAULT_LOCALE, translate } from './i18n.js';
+
+const UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['day', 86400000],
+  ['hour', 3600000],
+  ['minute', 60000],
+];
+
+/**
+ * A forum URL without trailing slashes, ready to have paths appended.
+ */
+export function normalizeBaseUrl(discourseUrl: string): string {
+  return discourseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Fetch a URL and parse its JSON. Error responses throw "HTTP <status>",
+ * which getErrorStatus() reads back. The forum's answer is unchecked, so
+ * callers narrow it before reading fields.
+ */
+export async function fetchJson(url: string, init?: RequestInit): Promise<unknown> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Whether a parsed JSON value is an object whose fields can be read.
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function formatRelativeTime(date: Date, locale: string = DEFAULT_LOCALE): string {
+  const diffMs = Date.now() - date.getTime();
+
+  if (diffMs < 60000) return translate(locale, 'justNow');
+  if (diffMs >= 30 * 86400000) return date.toLocaleDateString(locale);
+
+  const [unit, size] = UNITS.find(([, size]) => diffMs >= size)!;
+  return new Intl.RelativeTimeFormat(locale, { numeric: 'always' })
+    .format(-Math.floor(diffMs / size), unit);
 }